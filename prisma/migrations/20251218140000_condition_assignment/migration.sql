@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "StudySession" ADD COLUMN "counterbalanceRow" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Trial" ADD COLUMN "stimulusKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConditionAssignment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stimulusKey" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "conditionA" TEXT NOT NULL,
+    "conditionB" TEXT NOT NULL,
+    "conditionC" TEXT NOT NULL,
+    CONSTRAINT "ConditionAssignment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConditionAssignment_sessionId_stimulusKey_key" ON "ConditionAssignment"("sessionId", "stimulusKey");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ConditionResponse" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "stimulusKey" TEXT NOT NULL,
+    "condition" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "ratingStyleComprehension" INTEGER,
+    "ratingEmotionalFit" INTEGER,
+    "ratingEnjoyment" INTEGER,
+    "freeText" TEXT,
+    CONSTRAINT "ConditionResponse_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConditionResponse_sessionId_stimulusKey_condition_key" ON "ConditionResponse"("sessionId", "stimulusKey", "condition");
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "Stimulus" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "title" TEXT NOT NULL,
+    "artist" TEXT,
+    "year" INTEGER,
+    "movement" TEXT,
+    "styleTags" TEXT NOT NULL DEFAULT '[]',
+    "filePath" TEXT NOT NULL,
+    "altText" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true
+);
+
+-- Seed the catalog with the example images that ship in public/arts_example/.
+-- Ids match the keys the prototype used, so existing assignments link up below.
+INSERT INTO "Stimulus" ("id", "updatedAt", "title", "artist", "year", "movement", "styleTags", "filePath", "altText") VALUES
+    ('ex1', CURRENT_TIMESTAMP, 'Guernica', 'Pablo Picasso', 1937, 'Cubism', '["monochrome","fragmented forms","anti-war"]', '/arts_example/Guernica.jpg', 'Black, white and grey painting of fragmented figures, a horse and a bull in anguish.'),
+    ('ex2', CURRENT_TIMESTAMP, 'The Harvesters', 'Pieter Bruegel the Elder', 1565, 'Northern Renaissance', '["landscape","genre scene","warm palette"]', '/arts_example/theHarvesters.webp', 'Peasants harvesting and resting beside a golden wheat field, with a wide valley beyond.'),
+    ('ex5', CURRENT_TIMESTAMP, 'Under the Wave off Kanagawa', 'Katsushika Hokusai', 1831, 'Ukiyo-e', '["woodblock print","Prussian blue","dynamic composition"]', '/arts_example/underTheWaveOffKanagawa.jpg', 'A towering blue wave with claw-like foam curls over three boats, with Mount Fuji small in the distance.');
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ConditionAssignment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stimulusKey" TEXT NOT NULL,
+    "stimulusId" TEXT,
+    "position" INTEGER NOT NULL,
+    "conditionA" TEXT NOT NULL,
+    "conditionB" TEXT NOT NULL,
+    "conditionC" TEXT NOT NULL,
+    CONSTRAINT "ConditionAssignment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ConditionAssignment_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ConditionAssignment" ("conditionA", "conditionB", "conditionC", "createdAt", "id", "position", "sessionId", "stimulusKey", "stimulusId") SELECT "conditionA", "conditionB", "conditionC", "createdAt", "id", "position", "sessionId", "stimulusKey", (SELECT "id" FROM "Stimulus" WHERE "Stimulus"."id" = "ConditionAssignment"."stimulusKey") FROM "ConditionAssignment";
+DROP TABLE "ConditionAssignment";
+ALTER TABLE "new_ConditionAssignment" RENAME TO "ConditionAssignment";
+CREATE UNIQUE INDEX "ConditionAssignment_sessionId_stimulusKey_key" ON "ConditionAssignment"("sessionId", "stimulusKey");
+CREATE TABLE "new_ConditionResponse" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "stimulusKey" TEXT NOT NULL,
+    "stimulusId" TEXT,
+    "condition" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "ratingStyleComprehension" INTEGER,
+    "ratingEmotionalFit" INTEGER,
+    "ratingEnjoyment" INTEGER,
+    "freeText" TEXT,
+    CONSTRAINT "ConditionResponse_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ConditionResponse_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ConditionResponse" ("condition", "createdAt", "freeText", "id", "position", "ratingEmotionalFit", "ratingEnjoyment", "ratingStyleComprehension", "sessionId", "stimulusKey", "stimulusId", "updatedAt") SELECT "condition", "createdAt", "freeText", "id", "position", "ratingEmotionalFit", "ratingEnjoyment", "ratingStyleComprehension", "sessionId", "stimulusKey", (SELECT "id" FROM "Stimulus" WHERE "Stimulus"."id" = "ConditionResponse"."stimulusKey"), "updatedAt" FROM "ConditionResponse";
+DROP TABLE "ConditionResponse";
+ALTER TABLE "new_ConditionResponse" RENAME TO "ConditionResponse";
+CREATE UNIQUE INDEX "ConditionResponse_sessionId_stimulusKey_condition_key" ON "ConditionResponse"("sessionId", "stimulusKey", "condition");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "StoredImage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sha256" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "byteSize" INTEGER NOT NULL,
+    "originalName" TEXT
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoredImage_sha256_key" ON "StoredImage"("sha256");
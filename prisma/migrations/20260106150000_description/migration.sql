@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Description" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT,
+    "stimulusId" TEXT,
+    "storedImageId" TEXT,
+    "imageUrl" TEXT,
+    "text" TEXT NOT NULL,
+    "styleHints" TEXT NOT NULL DEFAULT '[]',
+    "safetyNotes" TEXT,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "accessibilityFocus" BOOLEAN NOT NULL,
+    CONSTRAINT "Description_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Description_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Description_storedImageId_fkey" FOREIGN KEY ("storedImageId") REFERENCES "StoredImage" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ConditionResponse" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "stimulusKey" TEXT NOT NULL,
+    "stimulusId" TEXT,
+    "condition" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "descriptionId" TEXT,
+    "ratingStyleComprehension" INTEGER,
+    "ratingEmotionalFit" INTEGER,
+    "ratingEnjoyment" INTEGER,
+    "freeText" TEXT,
+    CONSTRAINT "ConditionResponse_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ConditionResponse_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ConditionResponse_descriptionId_fkey" FOREIGN KEY ("descriptionId") REFERENCES "Description" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ConditionResponse" ("condition", "createdAt", "freeText", "id", "position", "ratingEmotionalFit", "ratingEnjoyment", "ratingStyleComprehension", "sessionId", "stimulusId", "stimulusKey", "updatedAt") SELECT "condition", "createdAt", "freeText", "id", "position", "ratingEmotionalFit", "ratingEnjoyment", "ratingStyleComprehension", "sessionId", "stimulusId", "stimulusKey", "updatedAt" FROM "ConditionResponse";
+DROP TABLE "ConditionResponse";
+ALTER TABLE "new_ConditionResponse" RENAME TO "ConditionResponse";
+CREATE UNIQUE INDEX "ConditionResponse_sessionId_stimulusKey_condition_key" ON "ConditionResponse"("sessionId", "stimulusKey", "condition");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
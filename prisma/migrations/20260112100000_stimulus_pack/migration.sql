@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "StimulusPack" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "stimulusId" TEXT NOT NULL,
+    "descriptionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "approvedAt" DATETIME,
+    "ssml" TEXT NOT NULL,
+    "azureVoiceName" TEXT NOT NULL,
+    "azureAudioPath" TEXT NOT NULL,
+    "openaiVoice" TEXT NOT NULL,
+    "emotionPreset" TEXT NOT NULL,
+    "openaiAudioPath" TEXT NOT NULL,
+    CONSTRAINT "StimulusPack_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "StimulusPack_descriptionId_fkey" FOREIGN KEY ("descriptionId") REFERENCES "Description" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PlaybackEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stimulusKey" TEXT NOT NULL,
+    "stimulusId" TEXT,
+    "condition" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "clientTs" DATETIME NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "source" TEXT,
+    "positionMs" INTEGER,
+    "durationMs" INTEGER,
+    "charIndex" INTEGER,
+    "charLength" INTEGER,
+    CONSTRAINT "PlaybackEvent_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PlaybackEvent_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PlaybackEvent_sessionId_stimulusKey_condition_idx" ON "PlaybackEvent"("sessionId", "stimulusKey", "condition");
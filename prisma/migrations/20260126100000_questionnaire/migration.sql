@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "Questionnaire" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "title" TEXT NOT NULL,
+    "instructions" TEXT,
+    "scope" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true
+);
+
+-- CreateTable
+CREATE TABLE "QuestionnaireItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "questionnaireId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "min" REAL,
+    "max" REAL,
+    "step" REAL,
+    "anchors" TEXT NOT NULL DEFAULT '[]',
+    "options" TEXT NOT NULL DEFAULT '[]',
+    "multiple" BOOLEAN NOT NULL DEFAULT false,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "reverseScored" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "QuestionnaireItem_questionnaireId_fkey" FOREIGN KEY ("questionnaireId") REFERENCES "Questionnaire" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItemResponse" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "stimulusKey" TEXT NOT NULL DEFAULT '',
+    "condition" TEXT NOT NULL DEFAULT '',
+    "value" REAL,
+    "text" TEXT,
+    CONSTRAINT "ItemResponse_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItemResponse_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "QuestionnaireItem" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Questionnaire_key_version_key" ON "Questionnaire"("key", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionnaireItem_questionnaireId_key_key" ON "QuestionnaireItem"("questionnaireId", "key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItemResponse_sessionId_itemId_stimulusKey_condition_key" ON "ItemResponse"("sessionId", "itemId", "stimulusKey", "condition");
+
+-- Seed the per-condition ratings that used to be hard-coded in the workbench.
+-- Item keys match the ConditionResponse rating columns' export names, so answers are mirrored there.
+INSERT INTO "Questionnaire" ("id", "key", "version", "title", "scope") VALUES
+    ('condition-ratings-v1', 'condition-ratings', 1, 'Ratings for this version', 'condition');
+
+INSERT INTO "QuestionnaireItem" ("id", "questionnaireId", "position", "key", "text", "type", "min", "max", "step", "anchors", "required") VALUES
+    ('condition-ratings-v1-style_comprehension', 'condition-ratings-v1', 0, 'style_comprehension', 'How well did the audio help you understand the artwork’s style?', 'likert', 1, 7, 1, '[{"value":1,"label":"Low"},{"value":7,"label":"High"}]', false),
+    ('condition-ratings-v1-emotional_fit', 'condition-ratings-v1', 1, 'emotional_fit', 'How well did the audio’s emotion match the artwork’s style?', 'likert', 1, 7, 1, '[{"value":1,"label":"Low"},{"value":7,"label":"High"}]', false),
+    ('condition-ratings-v1-enjoyment', 'condition-ratings-v1', 2, 'enjoyment', 'How enjoyable was the audio experience overall?', 'likert', 1, 7, 1, '[{"value":1,"label":"Low"},{"value":7,"label":"High"}]', false);
+
+INSERT INTO "QuestionnaireItem" ("id", "questionnaireId", "position", "key", "text", "type") VALUES
+    ('condition-ratings-v1-free_text', 'condition-ratings-v1', 3, 'free_text', 'Open-ended feedback (optional): what did this version help you notice or feel?', 'free_text');
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "ConsentForm" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_StudySession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "participantId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userAgent" TEXT,
+    "locale" TEXT,
+    "imageSourceType" TEXT,
+    "imageSource" TEXT,
+    "description" TEXT,
+    "counterbalanceRow" INTEGER,
+    "consentFormId" TEXT,
+    "consentedAt" DATETIME,
+    CONSTRAINT "StudySession_consentFormId_fkey" FOREIGN KEY ("consentFormId") REFERENCES "ConsentForm" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_StudySession" ("counterbalanceRow", "createdAt", "description", "id", "imageSource", "imageSourceType", "locale", "participantId", "userAgent") SELECT "counterbalanceRow", "createdAt", "description", "id", "imageSource", "imageSourceType", "locale", "participantId", "userAgent" FROM "StudySession";
+DROP TABLE "StudySession";
+ALTER TABLE "new_StudySession" RENAME TO "StudySession";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsentForm_version_key" ON "ConsentForm"("version");
+
+-- Seed the consent text the participant flow showed so far.
+INSERT INTO "ConsentForm" ("id", "version", "title", "body") VALUES
+    ('consent-v1', 1, 'Consent to take part', 'In this study you will look at a few artworks and listen to three spoken versions of a description of each. After each version you will answer a few questions about it. It takes about 5 minutes per artwork.
+
+Before you start, we ask some background questions, for example about your vision, your use of screen readers and your experience with art.
+
+We record your answers and how you use the audio player (for example when you press play). We do not record your voice or your name. Taking part is voluntary and you can stop at any time by closing this page.');
+
+-- Seed the background questionnaire, asked once per session after consent.
+INSERT INTO "Questionnaire" ("id", "key", "version", "title", "instructions", "scope") VALUES
+    ('background-v1', 'background', 1, 'About you', 'These answers help us understand how different listeners experience the audio descriptions.', 'session');
+
+INSERT INTO "QuestionnaireItem" ("id", "questionnaireId", "position", "key", "text", "type", "min", "max", "step", "anchors", "options", "multiple", "required") VALUES
+    ('background-v1-age_group', 'background-v1', 0, 'age_group', 'How old are you?', 'multiple_choice', NULL, NULL, NULL, '[]', '[{"value":"18-24","label":"18–24"},{"value":"25-34","label":"25–34"},{"value":"35-44","label":"35–44"},{"value":"45-54","label":"45–54"},{"value":"55-64","label":"55–64"},{"value":"65+","label":"65 or older"},{"value":"no_answer","label":"Prefer not to say"}]', false, true),
+    ('background-v1-visual_impairment', 'background-v1', 1, 'visual_impairment', 'Which best describes your vision?', 'multiple_choice', NULL, NULL, NULL, '[]', '[{"value":"sighted","label":"Sighted (with or without glasses)"},{"value":"low_vision","label":"Low vision"},{"value":"blind_late","label":"Blind, lost sight later in life"},{"value":"blind_early","label":"Blind from birth or early childhood"},{"value":"no_answer","label":"Prefer not to say"}]', false, true),
+    ('background-v1-screen_reader_use', 'background-v1', 2, 'screen_reader_use', 'How often do you use a screen reader?', 'multiple_choice', NULL, NULL, NULL, '[]', '[{"value":"never","label":"Never"},{"value":"occasionally","label":"Occasionally"},{"value":"weekly","label":"Every week"},{"value":"daily","label":"Every day"}]', false, true),
+    ('background-v1-art_expertise', 'background-v1', 3, 'art_expertise', 'How would you rate your knowledge of visual art?', 'likert', 1, 7, 1, '[{"value":1,"label":"None"},{"value":4,"label":"Some"},{"value":7,"label":"Expert"}]', '[]', false, true),
+    ('background-v1-art_training', 'background-v1', 4, 'art_training', 'Have you studied or worked in art, art history or museums?', 'multiple_choice', NULL, NULL, NULL, '[]', '[{"value":"none","label":"No"},{"value":"courses","label":"Some courses or workshops"},{"value":"degree","label":"A degree in the field"},{"value":"professional","label":"I work in the field"}]', false, false),
+    ('background-v1-museum_visits', 'background-v1', 5, 'museum_visits', 'How often do you visit museums or galleries?', 'multiple_choice', NULL, NULL, NULL, '[]', '[{"value":"never","label":"Never"},{"value":"yearly","label":"Once a year or less"},{"value":"few_per_year","label":"A few times a year"},{"value":"monthly","label":"Monthly or more"}]', false, false);
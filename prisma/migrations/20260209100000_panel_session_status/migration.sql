@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "StudySession" ADD COLUMN "externalStudyId" TEXT;
+ALTER TABLE "StudySession" ADD COLUMN "externalSessionId" TEXT;
+ALTER TABLE "StudySession" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'in_progress';
+ALTER TABLE "StudySession" ADD COLUMN "endedAt" DATETIME;
+ALTER TABLE "StudySession" ADD COLUMN "endReason" TEXT;
+ALTER TABLE "StudySession" ADD COLUMN "completionCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StudySession_completionCode_key" ON "StudySession"("completionCode");
+
+-- CreateIndex
+CREATE INDEX "StudySession_participantId_idx" ON "StudySession"("participantId");
+
+-- Backfill: sessions where every assigned stimulus has a response for all three conditions are completed.
+UPDATE "StudySession" SET "status" = 'completed'
+WHERE EXISTS (SELECT 1 FROM "ConditionAssignment" a WHERE a."sessionId" = "StudySession"."id")
+  AND NOT EXISTS (
+    SELECT 1 FROM "ConditionAssignment" a
+    WHERE a."sessionId" = "StudySession"."id"
+      AND (SELECT COUNT(DISTINCT r."condition") FROM "ConditionResponse" r
+           WHERE r."sessionId" = a."sessionId" AND r."stimulusKey" = a."stimulusKey") < 3
+  );
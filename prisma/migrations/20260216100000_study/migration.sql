@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "Study" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "conditions" TEXT NOT NULL DEFAULT '["tts","emotion","emotion_music"]',
+    "stimulusIds" TEXT NOT NULL DEFAULT '[]',
+    "questionnaireKeys" TEXT NOT NULL DEFAULT '[]',
+    "stimuliPerParticipant" INTEGER,
+    "ordering" TEXT NOT NULL DEFAULT 'williams'
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Study_slug_key" ON "Study"("slug");
+
+-- Existing sessions belong to the study that was implicit so far.
+INSERT INTO "Study" ("id", "updatedAt", "slug", "name", "status") VALUES
+    ('default', CURRENT_TIMESTAMP, 'default', 'Default study', 'active');
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_StudySession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "studyId" TEXT NOT NULL,
+    "participantId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userAgent" TEXT,
+    "locale" TEXT,
+    "imageSourceType" TEXT,
+    "imageSource" TEXT,
+    "description" TEXT,
+    "counterbalanceRow" INTEGER,
+    "consentFormId" TEXT,
+    "consentedAt" DATETIME,
+    "externalStudyId" TEXT,
+    "externalSessionId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "endedAt" DATETIME,
+    "endReason" TEXT,
+    "completionCode" TEXT,
+    CONSTRAINT "StudySession_studyId_fkey" FOREIGN KEY ("studyId") REFERENCES "Study" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "StudySession_consentFormId_fkey" FOREIGN KEY ("consentFormId") REFERENCES "ConsentForm" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_StudySession" ("completionCode", "consentFormId", "consentedAt", "counterbalanceRow", "createdAt", "description", "endReason", "endedAt", "externalSessionId", "externalStudyId", "id", "imageSource", "imageSourceType", "locale", "participantId", "status", "studyId", "userAgent") SELECT "completionCode", "consentFormId", "consentedAt", "counterbalanceRow", "createdAt", "description", "endReason", "endedAt", "externalSessionId", "externalStudyId", "id", "imageSource", "imageSourceType", "locale", "participantId", "status", 'default', "userAgent" FROM "StudySession";
+DROP TABLE "StudySession";
+ALTER TABLE "new_StudySession" RENAME TO "StudySession";
+CREATE UNIQUE INDEX "StudySession_completionCode_key" ON "StudySession"("completionCode");
+CREATE INDEX "StudySession_studyId_participantId_idx" ON "StudySession"("studyId", "participantId");
+CREATE TABLE "new_ConditionAssignment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stimulusKey" TEXT NOT NULL,
+    "stimulusId" TEXT,
+    "position" INTEGER NOT NULL,
+    "conditionA" TEXT NOT NULL,
+    "conditionB" TEXT NOT NULL,
+    "conditionC" TEXT,
+    CONSTRAINT "ConditionAssignment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ConditionAssignment_stimulusId_fkey" FOREIGN KEY ("stimulusId") REFERENCES "Stimulus" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ConditionAssignment" ("conditionA", "conditionB", "conditionC", "createdAt", "id", "position", "sessionId", "stimulusId", "stimulusKey") SELECT "conditionA", "conditionB", "conditionC", "createdAt", "id", "position", "sessionId", "stimulusId", "stimulusKey" FROM "ConditionAssignment";
+DROP TABLE "ConditionAssignment";
+ALTER TABLE "new_ConditionAssignment" RENAME TO "ConditionAssignment";
+CREATE UNIQUE INDEX "ConditionAssignment_sessionId_stimulusKey_key" ON "ConditionAssignment"("sessionId", "stimulusKey");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "Researcher" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastLoginAt" DATETIME
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Researcher_email_key" ON "Researcher"("email");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "UsageEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "route" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "studyId" TEXT,
+    "kind" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "characters" INTEGER NOT NULL DEFAULT 0,
+    "imageInputs" INTEGER NOT NULL DEFAULT 0,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "estimatedCostUsd" REAL NOT NULL,
+    CONSTRAINT "UsageEntry_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "StudySession" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "UsageEntry_studyId_fkey" FOREIGN KEY ("studyId") REFERENCES "Study" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "UsageEntry_createdAt_idx" ON "UsageEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageEntry_sessionId_createdAt_idx" ON "UsageEntry"("sessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageEntry_studyId_idx" ON "UsageEntry"("studyId");
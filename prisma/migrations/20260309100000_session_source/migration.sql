@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "StudySession" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'participant';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Study" ADD COLUMN "describeModel" TEXT;
@@ -0,0 +1,10 @@
+-- The seeded consent text promised "three spoken versions", but a study may use two conditions. Consent text is
+-- never edited in place, so the reworded text becomes version 2 — unless a researcher has already published
+-- their own version.
+INSERT INTO "ConsentForm" ("id", "version", "title", "body")
+SELECT 'consent-v2', 2, "title", replace("body", 'listen to three spoken versions', 'listen to several spoken versions')
+FROM "ConsentForm"
+WHERE "id" = 'consent-v1' AND "active" = true AND NOT EXISTS (SELECT 1 FROM "ConsentForm" WHERE "version" > 1);
+
+UPDATE "ConsentForm" SET "active" = false
+WHERE "id" = 'consent-v1' AND EXISTS (SELECT 1 FROM "ConsentForm" WHERE "id" = 'consent-v2');
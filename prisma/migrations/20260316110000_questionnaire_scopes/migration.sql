@@ -0,0 +1,3 @@
+-- Questionnaires with scope "stimulus" were never asked: no page renders them and no route takes their answers.
+-- Deactivate any that were defined, so a required one does not look like part of the study.
+UPDATE "Questionnaire" SET "active" = false WHERE "scope" = 'stimulus';
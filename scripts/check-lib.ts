@@ -0,0 +1,139 @@
+// Checks the pure library code against known answers: the rating analysis against R's reference
+// examples, and the SSML editor's builder, parser and validator.
+//
+//   npm run check
+//
+// Exits non-zero if any check fails. Reference values are from R 4.x:
+//   friedman.test(RoundingTimes)                      (?friedman.test, Hollander & Wolfe 1973, p. 140)
+//   wilcox.test(x, y, paired = TRUE)                  (?wilcox.test, depression scores)
+//   p.adjust(c(0.01, 0.02, 0.03, 0.04, 0.05), "holm")
+
+import assert from "node:assert/strict";
+import { friedmanTest, holm, wilcoxonSignedRank } from "@/lib/analysis";
+import { buildSsmlFromTextAndMarks, EMPTY_MARKS, insertBreak, insertSpan, parseSsml, validateSsml } from "@/lib/ssml";
+
+const checks: [string, () => void][] = [];
+const check = (name: string, fn: () => void) => checks.push([name, fn]);
+
+function assertClose(actual: number | null, expected: number, tolerance: number, what: string) {
+  assert.ok(actual !== null && Math.abs(actual - expected) <= tolerance, `${what}: expected ${expected}, got ${actual}`);
+}
+
+// ---------------------------------------------------------------------------------------------
+// Analysis
+
+const ROUNDING_TIMES = [
+  [5.4, 5.5, 5.55],
+  [5.85, 5.7, 5.75],
+  [5.2, 5.6, 5.5],
+  [5.55, 5.5, 5.4],
+  [5.9, 5.85, 5.7],
+  [5.45, 5.55, 5.6],
+  [5.4, 5.4, 5.35],
+  [5.45, 5.5, 5.35],
+  [5.25, 5.15, 5.0],
+  [5.85, 5.8, 5.7],
+  [5.25, 5.2, 5.1],
+  [5.65, 5.55, 5.45],
+  [5.6, 5.35, 5.45],
+  [5.05, 5.0, 4.95],
+  [5.5, 5.5, 5.4],
+  [5.45, 5.55, 5.5],
+  [5.55, 5.55, 5.35],
+  [5.45, 5.5, 5.55],
+  [5.5, 5.45, 5.25],
+  [5.65, 5.6, 5.4],
+  [5.7, 5.65, 5.55],
+  [6.3, 6.3, 6.25]
+];
+
+check("Friedman test matches R on RoundingTimes (with ties)", () => {
+  const result = friedmanTest(ROUNDING_TIMES);
+  assert.equal(result.n, 22);
+  assert.equal(result.df, 2);
+  assertClose(result.chiSquared, 11.143, 5e-4, "chi-squared");
+  assertClose(result.p, 0.003805, 5e-6, "p");
+});
+
+const DEPRESSION_X = [1.83, 0.5, 1.62, 2.48, 1.68, 1.88, 1.55, 3.06, 1.3];
+const DEPRESSION_Y = [0.878, 0.647, 0.598, 2.05, 1.06, 1.29, 1.06, 3.14, 1.29];
+
+check("Wilcoxon signed-rank test matches R on the paired depression scores (exact)", () => {
+  const result = wilcoxonSignedRank(
+    DEPRESSION_X.map((x, i) => [x, DEPRESSION_Y[i]]),
+    "emotion",
+    "tts"
+  );
+  assert.equal(result.n, 9);
+  assert.equal(result.V, 40);
+  assert.equal(result.exact, true);
+  assertClose(result.p, 0.0390625, 1e-9, "p");
+});
+
+check("Holm adjustment matches p.adjust, leaving missing tests out", () => {
+  const adjusted = holm([0.01, 0.02, null, 0.03, 0.04, 0.05]);
+  const expected = [0.05, 0.08, null, 0.09, 0.09, 0.09];
+  adjusted.forEach((p, i) => {
+    if (expected[i] === null) assert.equal(p, null);
+    else assertClose(p, expected[i]!, 1e-12, `adjusted p[${i}]`);
+  });
+});
+
+// ---------------------------------------------------------------------------------------------
+// SSML
+
+const VOICE = "en-US-Jenny:DragonHDLatestNeural";
+const validateOpts = {
+  isAllowedVoice: (name: string) => name === VOICE,
+  expressAsSupport: () => ({ styles: ["cheerful"], roles: ["Girl"] })
+};
+
+check("Built SSML validates and parses back to the same text and marks", () => {
+  const text = "A quiet harbour at dawn & mist.";
+  let marks = insertSpan(EMPTY_MARKS, { kind: "express-as", start: 0, end: 15, style: "cheerful", role: "Girl" });
+  marks = insertSpan(marks, { kind: "prosody", start: 2, end: 7, rate: "-15%" });
+  marks = insertSpan(marks, { kind: "emphasis", start: 2, end: 7, level: "strong" });
+  marks = insertBreak(marks, { kind: "break", at: 15, timeMs: 200 });
+  const ssml = buildSsmlFromTextAndMarks({ text, voiceName: VOICE, lang: "en-US", marks });
+
+  assert.deepEqual(validateSsml(ssml, validateOpts), []);
+  const parsed = parseSsml(ssml);
+  assert.deepEqual(parsed.issues, []);
+  assert.equal(parsed.text, text);
+  assert.deepEqual(parsed.marks, marks);
+  assert.equal(parsed.voice?.name, VOICE);
+  assert.equal(parsed.lang, "en-US");
+});
+
+check("Validator rejects unknown voices, styles, elements and roles", () => {
+  const doc = (body: string, voice = VOICE) =>
+    `<speak version="1.0" xml:lang="en-US"><voice name="${voice}">${body}</voice></speak>`;
+  const messages = (ssml: string) => validateSsml(ssml, validateOpts).map((i) => i.message);
+
+  assert.deepEqual(messages(doc("Hello", "en-US-Other")), ['Voice "en-US-Other" is not allowed']);
+  assert.deepEqual(messages(doc('<mstts:express-as style="sad">Hi</mstts:express-as>')), [
+    `Voice "${VOICE}" does not support the style "sad"`
+  ]);
+  assert.deepEqual(messages(doc('<audio src="https://example.com/a.mp3"/>')), ["<audio> is not allowed"]);
+  assert.deepEqual(messages(doc('<mstts:express-as style="cheerful" role="Girl">Hi</mstts:express-as>')), []);
+  assert.deepEqual(messages(doc('<mstts:express-as style="cheerful" role="Boy">Hi</mstts:express-as>')), [
+    `Voice "${VOICE}" does not support the role "Boy"`
+  ]);
+  assert.deepEqual(messages(doc('<break time="20s"/>')), ['time="20s" must be at most 10000ms']);
+  assert.equal(messages("<speak><voice>").length, 1); // not well formed: one syntax issue
+});
+
+let failed = 0;
+for (const [name, fn] of checks) {
+  try {
+    fn();
+    console.log(`ok   ${name}`);
+  } catch (e) {
+    failed++;
+    console.log(`FAIL ${name}\n     ${e instanceof Error ? e.message : e}`);
+  }
+}
+if (failed) {
+  console.log(`${failed} of ${checks.length} checks failed`);
+  process.exit(1);
+}
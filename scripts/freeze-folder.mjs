@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+// Batch-freeze stimulus packs for every image in a folder under public/.
+//
+//   npm run freeze -- public/modern_images [--approve] [--force] [--base-url http://localhost:3000]
+//                     [--azure-voice en-US-Jenny:DragonHDLatestNeural] [--openai-voice coral] [--emotion-preset warm]
+//                     [--describe-model gpt-4o]
+//
+// Talks to a running app (`npm run dev`): each image is registered as a stimulus (if not already in
+// the catalog), then a draft pack is generated via POST /api/packs. With --approve the draft is approved
+// immediately; otherwise approve it after listening in the workbench. Stimuli that already have an
+// approved pack are skipped unless --force is given.
+//
+// The API routes it calls are researcher-only: set RESEARCHER_TOKEN to the app's token.
+//
+// Alt text comes from a sidecar next to each image: `<name>.txt` holding the alt text, or `<name>.json` with
+// { "altText": "...", "title": "..." }. Images without one are registered inactive, so participants never
+// see them until the alt text is written (PATCH /api/stimuli/:id with altText and active: true).
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif"]);
+
+function parseArgs(argv) {
+  const opts = { folder: null, baseUrl: "http://localhost:3000", approve: false, force: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--approve") opts.approve = true;
+    else if (arg === "--force") opts.force = true;
+    else if (arg === "--base-url") opts.baseUrl = argv[++i];
+    else if (arg === "--azure-voice") opts.azureVoiceName = argv[++i];
+    else if (arg === "--openai-voice") opts.openaiVoice = argv[++i];
+    else if (arg === "--emotion-preset") opts.emotionPreset = argv[++i];
+    else if (arg === "--describe-model") opts.describeModel = argv[++i];
+    else if (!opts.folder) opts.folder = arg;
+    else throw new Error(`Unexpected argument: ${arg}`);
+  }
+  if (!opts.folder) throw new Error("Usage: npm run freeze -- <folder under public/> [--approve] [--force]");
+  return opts;
+}
+
+async function api(baseUrl, method, route, body) {
+  const res = await fetch(new URL(route, baseUrl), {
+    method,
+    headers: {
+      Authorization: `Bearer ${process.env.RESEARCHER_TOKEN}`,
+      ...(body ? { "Content-Type": "application/json" } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  if (!res.ok) throw new Error(`${method} ${route} failed (${res.status}): ${await res.text()}`);
+  return res.json();
+}
+
+function titleFromFilename(file) {
+  return path
+    .basename(file, path.extname(file))
+    .replace(/[_-]+/g, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/^\w/, (c) => c.toUpperCase());
+}
+
+// { altText, title } from the image's sidecar file; null when there is none.
+async function readSidecar(imagePath) {
+  const base = imagePath.slice(0, -path.extname(imagePath).length);
+  const text = await readFile(`${base}.txt`, "utf8").catch(() => null);
+  if (text?.trim()) return { altText: text.trim() };
+  const json = await readFile(`${base}.json`, "utf8").catch(() => null);
+  if (json == null) return null;
+  let meta;
+  try {
+    meta = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`${base}.json is not valid JSON: ${e.message}`);
+  }
+  const altText = typeof meta.altText === "string" ? meta.altText.trim() : "";
+  if (!altText) return null;
+  return { altText, title: typeof meta.title === "string" && meta.title.trim() ? meta.title.trim() : undefined };
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (!process.env.RESEARCHER_TOKEN) {
+    throw new Error("Set RESEARCHER_TOKEN to the app's researcher token; the stimulus and pack routes need it.");
+  }
+  const publicDir = path.resolve("public");
+  const folder = path.resolve(opts.folder);
+  if (!folder.startsWith(publicDir + path.sep)) {
+    throw new Error(`Folder must be inside ${publicDir} so the app can serve the images.`);
+  }
+
+  const files = (await readdir(folder)).filter((f) => IMAGE_EXTENSIONS.has(path.extname(f).toLowerCase())).sort();
+  if (files.length === 0) {
+    console.log(`No images found in ${folder}`);
+    return;
+  }
+
+  const { stimuli } = await api(opts.baseUrl, "GET", "/api/stimuli?all=1");
+  let failures = 0;
+
+  for (const file of files) {
+    const filePath = "/" + path.relative(publicDir, path.join(folder, file)).split(path.sep).join("/");
+    try {
+      let stimulus = stimuli.find((s) => s.filePath === filePath);
+      if (!stimulus) {
+        const sidecar = await readSidecar(path.join(folder, file));
+        const title = sidecar?.title ?? titleFromFilename(file);
+        // Without alt text the stimulus stays inactive; the placeholder is never shown to participants.
+        ({ stimulus } = await api(opts.baseUrl, "POST", "/api/stimuli", {
+          title,
+          filePath,
+          altText: sidecar?.altText ?? `Alt text missing for ${title}`,
+          active: !!sidecar
+        }));
+        console.log(`+ stimulus ${stimulus.id} (${filePath})${sidecar ? "" : " — inactive: no alt text sidecar"}`);
+      }
+
+      if (!opts.force) {
+        const { packs } = await api(opts.baseUrl, "GET", `/api/packs?stimulusId=${stimulus.id}&status=approved`);
+        if (packs.length > 0) {
+          console.log(`= ${filePath}: already has approved pack ${packs[0].id}, skipping`);
+          continue;
+        }
+      }
+
+      const { pack } = await api(opts.baseUrl, "POST", "/api/packs", {
+        stimulusId: stimulus.id,
+        describeModel: opts.describeModel,
+        azureVoiceName: opts.azureVoiceName,
+        openaiVoice: opts.openaiVoice,
+        emotionPreset: opts.emotionPreset
+      });
+      if (opts.approve) await api(opts.baseUrl, "PATCH", `/api/packs/${pack.id}`, { status: "approved" });
+      console.log(`${opts.approve ? "✓ approved" : "• draft"} pack ${pack.id} for ${filePath}`);
+    } catch (e) {
+      failures++;
+      console.error(`✗ ${filePath}: ${e.message}`);
+    }
+  }
+
+  if (failures > 0) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { audioCacheHeaders, getAudioCacheEntry, readAudioCacheAudio } from "@/lib/audioCache";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// Stable URL for a cached synthesis; the bytes behind an id never change.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const entry = await getAudioCacheEntry(id);
+  if (!entry) return NextResponse.json({ error: "Cache entry not found" }, { status: 404 });
+
+  const headers = { ...audioCacheHeaders(entry, true), "Cache-Control": "private, max-age=31536000, immutable" };
+  if (req.headers.get("if-none-match") === headers.ETag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(await readAudioCacheAudio(id), { headers });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getAudioCacheEntry, purgeAudioCacheEntry } from "@/lib/audioCache";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const entry = await getAudioCacheEntry(id);
+  if (!entry) return NextResponse.json({ error: "Cache entry not found" }, { status: 404 });
+  return NextResponse.json({ entry, audioUrl: `/api/audio-cache/${id}/audio` });
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!(await purgeAudioCacheEntry(id))) {
+    return NextResponse.json({ error: "Cache entry not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
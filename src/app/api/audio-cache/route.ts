@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { listAudioCacheEntries, purgeAudioCache } from "@/lib/audioCache";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// GET /api/audio-cache -> all cached syntheses (metadata only), newest first
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const entries = await listAudioCacheEntries();
+  return NextResponse.json({
+    entries,
+    totalBytes: entries.reduce((sum, e) => sum + e.byteSize, 0)
+  });
+}
+
+// DELETE /api/audio-cache?provider=azure&olderThanDays=30 -> purge matching entries (all if no filter)
+export async function DELETE(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const params = new URL(req.url).searchParams;
+  const provider = params.get("provider") ?? undefined;
+  const olderThanDays = params.get("olderThanDays");
+
+  let createdBefore: Date | undefined;
+  if (olderThanDays !== null) {
+    const days = Number(olderThanDays);
+    if (!Number.isFinite(days) || days < 0) {
+      return NextResponse.json({ error: "olderThanDays must be a non-negative number" }, { status: 400 });
+    }
+    createdBefore = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  const purged = await purgeAudioCache({ provider, createdBefore });
+  return NextResponse.json({ ok: true, purged });
+}
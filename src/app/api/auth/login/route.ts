@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { sameSecret } from "@/lib/authTokens";
+import { prisma } from "@/lib/prisma";
+import { setResearcherCookie, toResearcherInfo, verifyPassword } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// An account's email and password, or the shared RESEARCHER_TOKEN.
+const BodySchema = z.union([
+  z.object({ email: z.string().min(1).max(200), password: z.string().min(1).max(200) }),
+  z.object({ token: z.string().min(1).max(500) })
+]);
+
+// POST { email, password } | { token } -> sets the researcher session cookie
+export async function POST(req: Request) {
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  if ("token" in parsed.data) {
+    const expected = process.env.RESEARCHER_TOKEN;
+    if (!expected || !sameSecret(parsed.data.token, expected)) {
+      return NextResponse.json({ error: "Wrong token" }, { status: 401 });
+    }
+    return setResearcherCookie(NextResponse.json({ researcher: null }), "token");
+  }
+
+  // The same answer for unknown, deactivated and wrong-password accounts.
+  const account = await prisma.researcher.findUnique({ where: { email: parsed.data.email.toLowerCase() } });
+  if (!account?.active || !(await verifyPassword(parsed.data.password, account.passwordHash))) {
+    return NextResponse.json({ error: "Wrong email or password" }, { status: 401 });
+  }
+  const row = await prisma.researcher.update({ where: { id: account.id }, data: { lastLoginAt: new Date() } });
+  return setResearcherCookie(NextResponse.json({ researcher: toResearcherInfo(row) }), row.id);
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { RESEARCHER_COOKIE } from "@/lib/authTokens";
+
+// POST -> clears the researcher session cookie
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(RESEARCHER_COOKIE);
+  return res;
+}
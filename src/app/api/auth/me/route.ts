@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { researcherFrom, toResearcherInfo } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// GET -> who is signed in: { signedIn, researcher } (researcher is null for the shared token)
+export async function GET(req: Request) {
+  const claims = await researcherFrom(req);
+  if (!claims) return NextResponse.json({ signedIn: false, researcher: null });
+  const row = claims.sub === "token" ? null : await prisma.researcher.findUnique({ where: { id: claims.sub } });
+  return NextResponse.json({ signedIn: true, researcher: row ? toResearcherInfo(row) : null });
+}
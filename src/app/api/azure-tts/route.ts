@@ -1,91 +1,88 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import { SSML_LANG } from "@/lib/ssml";
+import {
+  AZURE_OUTPUT_FORMATS,
+  DEFAULT_AZURE_VOICE,
+  buildPlainSsml,
+  isAllowedAzureVoice,
+  validateAzureSsml
+} from "@/lib/tts/azure";
+import { TtsConfigError, TtsProviderError, getTtsProvider, type TtsProvider } from "@/lib/tts";
+import { audioCacheHeaders, getOrSynthesizeAudio } from "@/lib/audioCache";
+import { cookieSessionId } from "@/lib/participantAuth";
+import { RateLimitError, rateLimitResponse } from "@/lib/rateLimit";
+import { synthesizeMetered } from "@/lib/usage";
+import { requireResearcher } from "@/lib/researcherAuth";
 
 export const runtime = "nodejs";
 
-type Body = {
-  text?: string;          // plain text input (optional)
-  ssml?: string;          // full SSML document (recommended)
-  voiceName?: string;     // e.g., en-US-JennyNeural
-  outputFormat?: string;  // e.g., audio-24khz-48kbitrate-mono-mp3
-  lang?: string;          // e.g., en-US
-};
-
-function escapeXml(s: string) {
-  return s
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&apos;");
-}
-
-function buildPlainSsml(opts: { text: string; voiceName: string; lang: string }) {
-  // “Natural/default” speaking: no <prosody>, no <mstts:express-as>
-  const safeText = escapeXml(opts.text);
-  return `<?xml version="1.0" encoding="utf-8"?>
-<speak version="1.0"
-  xmlns="http://www.w3.org/2001/10/synthesis"
-  xmlns:mstts="https://www.w3.org/2001/mstts"
-  xml:lang="${opts.lang}">
-  <voice name="${opts.voiceName}">
-    ${safeText}
-  </voice>
-</speak>`;
-}
+const BodySchema = z
+  .object({
+    text: z.string().trim().max(3000).optional(), // plain text input, wrapped in plain SSML
+    ssml: z.string().trim().optional(), // full SSML document (recommended); validated before synthesis
+    voiceName: z
+      .string()
+      .trim()
+      .refine(isAllowedAzureVoice, "Voice is not allowed")
+      .default(DEFAULT_AZURE_VOICE),
+    outputFormat: z.enum(AZURE_OUTPUT_FORMATS).optional(),
+    lang: z.string().trim().regex(SSML_LANG, "Expected a language tag such as en-US").default("en-US")
+  })
+  .refine((b) => b.ssml || b.text, "Missing ssml or text");
 
 export async function POST(req: Request) {
-  const speechKey = process.env.SPEECH_KEY || process.env.AZURE_SPEECH_KEY;
-  const speechRegion = process.env.SPEECH_REGION || process.env.AZURE_SPEECH_REGION;
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
 
-  if (!speechKey || !speechRegion) {
-    return new NextResponse(
-      "Missing SPEECH_KEY / SPEECH_REGION environment variables (Azure Speech).",
-      { status: 500 }
-    );
+  let provider: TtsProvider;
+  try {
+    provider = getTtsProvider("ssml");
+  } catch (e) {
+    if (e instanceof TtsConfigError) return new NextResponse(e.message, { status: 500 });
+    throw e;
   }
 
-  const body = (await req.json().catch(() => ({}))) as Body;
-
-  const voiceName = (body.voiceName ?? "en-US-JennyNeural").trim();
-  const outputFormat = (body.outputFormat ?? "audio-24khz-48kbitrate-mono-mp3").trim();
-  const lang = (body.lang ?? "en-US").trim();
-
-  let ssml = (body.ssml ?? "").trim();
-
-  // SSML-first: if SSML not provided, build a plain SSML wrapper from text.
-  if (!ssml) {
-    const text = (body.text ?? "").trim();
-    if (!text) return new NextResponse("Missing ssml or text", { status: 400 });
-    ssml = buildPlainSsml({ text, voiceName, lang });
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
   }
+  const { voiceName, lang } = parsed.data;
+  // Only meaningful for Azure; other providers ignore it and use their own format.
+  const outputFormat = provider.id === "azure" ? (parsed.data.outputFormat ?? provider.defaultOutputFormat) : provider.defaultOutputFormat;
 
-  const endpoint = `https://${speechRegion}.tts.speech.microsoft.com/cognitiveservices/v1`;
+  // Rate limits and the usage ledger are kept per session.
+  const sessionId = await cookieSessionId(req);
 
-  const res = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Ocp-Apim-Subscription-Key": speechKey,
-      "Content-Type": "application/ssml+xml",
-      "X-Microsoft-OutputFormat": outputFormat,
-      "User-Agent": "art-audio-study-app",
-    },
-    body: ssml,
-  });
+  // SSML-first: if SSML not provided, build a plain SSML wrapper from text.
+  const ssml = parsed.data.ssml || buildPlainSsml({ text: parsed.data.text ?? "", voiceName, lang });
+  // Each issue names the offending element and its offset, so the editor can highlight it.
+  const issues = validateAzureSsml(ssml);
+  if (issues.length) return NextResponse.json({ error: "Invalid SSML", issues }, { status: 400 });
 
-  if (!res.ok) {
-    const errText = await res.text().catch(() => "");
-    return new NextResponse(
-      `Azure TTS failed (${res.status}): ${errText || res.statusText}`,
-      { status: 502 }
+  try {
+    const { entry, audio, hit } = await getOrSynthesizeAudio(
+      { provider: provider.id, model: provider.model, voice: voiceName, instructions: null, inputKind: "ssml", input: ssml, outputFormat },
+      // Only cache misses reach the provider, so only they count against the limits.
+      () =>
+        synthesizeMetered(
+          provider,
+          { input: { kind: "ssml", ssml }, voice: voiceName, outputFormat },
+          { route: "/api/azure-tts", sessionId, limited: true }
+        )
     );
+    return new NextResponse(audio, {
+      status: 200,
+      headers: {
+        ...audioCacheHeaders(entry, hit),
+        "Cache-Control": "private, no-cache",
+      },
+    });
+  } catch (e) {
+    if (e instanceof RateLimitError) return rateLimitResponse(e);
+    if (e instanceof TtsConfigError) return new NextResponse(e.message, { status: 500 });
+    if (e instanceof TtsProviderError) return new NextResponse(e.message, { status: 502 });
+    throw e;
   }
-
-  const audio = await res.arrayBuffer();
-  return new NextResponse(audio, {
-    status: 200,
-    headers: {
-      "Content-Type": "audio/mpeg",
-      "Cache-Control": "no-store",
-    },
-  });
 }
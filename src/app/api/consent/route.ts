@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ConsentFormSchema, createConsentVersion, getActiveConsentForm, toConsentFormInfo } from "@/lib/consent";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// GET /api/consent         -> the consent form participants must accept
+// GET /api/consent?all=1   -> every version
+export async function GET(req: Request) {
+  if (new URL(req.url).searchParams.get("all") === "1") {
+    const rows = await prisma.consentForm.findMany({ orderBy: { version: "asc" } });
+    return NextResponse.json({ consentForms: rows.map(toConsentFormInfo) });
+  }
+
+  const row = await getActiveConsentForm();
+  if (!row) return NextResponse.json({ error: "No consent form is active" }, { status: 404 });
+  return NextResponse.json({ consentForm: toConsentFormInfo(row) });
+}
+
+// POST { title, body } -> saved as the next version and made the active one.
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = ConsentFormSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const consentForm = await createConsentVersion(parsed.data);
+  return NextResponse.json({ consentForm }, { status: 201 });
+}
@@ -1,61 +1,86 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { getOpenAIClient } from "@/lib/openai";
+import { prisma } from "@/lib/prisma";
+import { stimulusImageToDataUrl, storedImageToDataUrl } from "@/lib/images";
+import { describeImage, saveDescription, toDescribeResponse } from "@/lib/descriptions";
+import { DescribeConfigError, DescribeOutputError, DescribeProviderError } from "@/lib/describe";
+import { cookieSessionId } from "@/lib/participantAuth";
+import { RateLimitError, rateLimitResponse } from "@/lib/rateLimit";
+import { requireResearcher } from "@/lib/researcherAuth";
 
 export const runtime = "nodejs"; // ensures Buffer available on Vercel
 
 const BodySchema = z.object({
   imageUrl: z.string().url().optional(),
   imageDataUrl: z.string().startsWith("data:image/").optional(),
-  // Optional: for study context
+  // Id returned by POST /api/images; preferred over sending the image bytes again.
+  imageId: z.string().min(1).optional(),
+  // Catalog stimulus; its image is read from public/ on the server.
+  stimulusId: z.string().min(1).optional(),
   accessibilityFocus: z.boolean().optional()
-}).refine((v) => !!v.imageUrl || !!v.imageDataUrl, "Provide imageUrl or imageDataUrl.");
-
-function buildPrompt(accessibilityFocus: boolean) {
-  return [
-    "Task: describe the visual artwork in a way that is useful for a blind or sighted participant.",
-    "Output MUST be valid JSON with keys:",
-    "  description: string (2-4 sentences, concrete, neutral, no speculation).",
-    "  styleHints: array of 3-6 short phrases describing style-related qualities (e.g., color palette, brushwork, mood, composition, era cues).",
-    "  safetyNotes: optional string if there is potentially sensitive content.",
-    "Avoid guessing the artist or title unless it is obvious from visible text.",
-    accessibilityFocus ? "Prioritize non-visual sensory metaphors only when grounded in the image." : ""
-  ].filter(Boolean).join("\n");
-}
+}).refine(
+  (v) => !!v.imageUrl || !!v.imageDataUrl || !!v.imageId || !!v.stimulusId,
+  "Provide imageUrl, imageDataUrl, imageId or stimulusId."
+);
 
 export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
   const json = await req.json().catch(() => null);
   const parsed = BodySchema.safeParse(json);
   if (!parsed.success) {
     return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
   }
 
-  const openai = getOpenAIClient();
-  const { imageUrl, imageDataUrl, accessibilityFocus } = parsed.data;
-
-  // Using Responses API image input format.
-  const response = await openai.responses.create({
-    model: "gpt-4o-mini",
-    input: [{
-      role: "user",
-      content: [
-        { type: "input_text", text: buildPrompt(!!accessibilityFocus) },
-        { type: "input_image", image_url: imageUrl ?? imageDataUrl! }
-      ]
-    }],
-    text: { format: { type: "json_object" } }
-  });
+  const { imageUrl, imageDataUrl, imageId, stimulusId, accessibilityFocus } = parsed.data;
 
-  // response.output_text is a convenience accessor in the SDK
-  let out: any = null;
+  // The session of the participant cookie (the workbench's current session), if any: the description is stored
+  // for it, its study picks the vision model (Study.describeModel), and the call is rate limited under it.
+  const sessionId = (await cookieSessionId(req)) ?? undefined;
+  const session = sessionId
+    ? await prisma.studySession.findUnique({ where: { id: sessionId }, include: { study: true } })
+    : null;
+  const model = session?.study.describeModel ?? undefined;
+
+  let imageInput = imageUrl ?? imageDataUrl;
+  if (imageId) {
+    const image = await prisma.storedImage.findUnique({ where: { id: imageId } });
+    if (!image) return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    imageInput = await storedImageToDataUrl(image);
+  } else if (stimulusId) {
+    const stimulus = await prisma.stimulus.findUnique({ where: { id: stimulusId } });
+    if (!stimulus) return NextResponse.json({ error: "Stimulus not found" }, { status: 404 });
+    imageInput = await stimulusImageToDataUrl(stimulus);
+  }
+
+  let generated;
   try {
-    out = JSON.parse((response as any).output_text ?? "{}");
-  } catch {
-    out = { description: (response as any).output_text ?? "", styleHints: [] };
+    const usage = { route: "/api/describe", sessionId, limited: true };
+    generated = await describeImage(imageInput!, !!accessibilityFocus, usage, { model });
+  } catch (e) {
+    if (e instanceof RateLimitError) return rateLimitResponse(e);
+    if (e instanceof DescribeConfigError) return NextResponse.json({ error: e.message }, { status: 500 });
+    if (e instanceof DescribeProviderError) return NextResponse.json({ error: e.message }, { status: 502 });
+    // Nothing is stored for malformed output; the researcher can simply retry.
+    if (e instanceof DescribeOutputError) {
+      return NextResponse.json({ error: e.message, raw: e.raw.slice(0, 2000) }, { status: 502 });
+    }
+    throw e;
   }
 
-  if (typeof out.description !== "string") out.description = "";
-  if (!Array.isArray(out.styleHints)) out.styleHints = [];
+  const row = await saveDescription({
+    generated,
+    accessibilityFocus: !!accessibilityFocus,
+    sessionId,
+    stimulusId: imageId ? undefined : stimulusId,
+    storedImageId: imageId,
+    imageUrl
+  });
+
+  if (sessionId) {
+    await prisma.studySession.update({ where: { id: sessionId }, data: { description: row.text } });
+  }
 
-  return NextResponse.json(out);
+  return NextResponse.json(toDescribeResponse(row));
 }
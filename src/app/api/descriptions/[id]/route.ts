@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { toDescribeResponse } from "@/lib/descriptions";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// Full record of one generated description, including the model and prompt version that produced it.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const row = await prisma.description.findUnique({ where: { id } });
+  if (!row) return NextResponse.json({ error: "Description not found" }, { status: 404 });
+
+  return NextResponse.json({
+    ...toDescribeResponse(row),
+    createdAt: row.createdAt,
+    sessionId: row.sessionId,
+    stimulusId: row.stimulusId,
+    storedImageId: row.storedImageId,
+    imageUrl: row.imageUrl,
+    model: row.model,
+    promptVersion: row.promptVersion,
+    accessibilityFocus: row.accessibilityFocus
+  });
+}
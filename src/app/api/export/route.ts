@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { CODEBOOK, DateUntilSchema, EXPORT_TABLES, buildExport, codebookToCsv, toCsv } from "@/lib/export";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+const QuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+  // CSV is one table per request; "codebook" returns the column documentation.
+  table: z.enum([...EXPORT_TABLES, "codebook"]).optional(),
+  from: z.coerce.date().optional(),
+  to: DateUntilSchema.optional(),
+  participantId: z.string().min(1).optional(),
+  stimulusId: z.string().min(1).optional(),
+  studyId: z.string().min(1).optional()
+});
+
+// GET /api/export?format=csv&table=long&from=2026-01-01&to=2026-02-01&participantId=...&stimulusId=...&studyId=...
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = QuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+  }
+  const { format, table, ...filters } = parsed.data;
+
+  if (format === "csv") {
+    if (!table) {
+      return NextResponse.json({ error: `CSV export needs table=${[...EXPORT_TABLES, "codebook"].join("|")}` }, { status: 400 });
+    }
+    const csv = table === "codebook" ? codebookToCsv() : toCsv(table, (await buildExport(filters))[table]);
+    const stamp = new Date().toISOString().slice(0, 10);
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="art-audio-${table}-${stamp}.csv"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  }
+
+  const tables = await buildExport(filters);
+  return NextResponse.json(
+    {
+      generatedAt: new Date().toISOString(),
+      filters,
+      codebook: CODEBOOK,
+      tables: table && table !== "codebook" ? { [table]: tables[table] } : tables
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
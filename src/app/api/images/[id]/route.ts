@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { readStored } from "@/lib/storage";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const image = await prisma.storedImage.findUnique({ where: { id } });
+  if (!image) return NextResponse.json({ error: "Image not found" }, { status: 404 });
+
+  const bytes = await readStored(image.filePath);
+  return new NextResponse(bytes, {
+    headers: {
+      "Content-Type": image.mimeType,
+      // Content-addressed: the bytes behind an id never change.
+      "Cache-Control": "private, max-age=31536000, immutable",
+      ETag: `"${image.sha256}"`
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { ALLOWED_IMAGE_TYPES, MAX_UPLOAD_BYTES, detectImageType } from "@/lib/images";
+import { writeContentAddressed } from "@/lib/storage";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// POST multipart/form-data: file (required), sessionId (optional).
+// Stores the image under storage/images/<sha256>.<ext> and records it on the session.
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: `Image exceeds ${MAX_UPLOAD_BYTES} bytes` }, { status: 413 });
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const mimeType = detectImageType(bytes);
+  if (!mimeType || !(mimeType in ALLOWED_IMAGE_TYPES)) {
+    return NextResponse.json(
+      { error: `Unsupported image type. Allowed: ${Object.keys(ALLOWED_IMAGE_TYPES).join(", ")}` },
+      { status: 415 }
+    );
+  }
+
+  const sessionIdRaw = form?.get("sessionId");
+  const sessionId = typeof sessionIdRaw === "string" && sessionIdRaw ? sessionIdRaw : undefined;
+  if (sessionId && !(await prisma.studySession.findUnique({ where: { id: sessionId } }))) {
+    return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+  }
+
+  const { sha256, relPath } = await writeContentAddressed("images", bytes, ALLOWED_IMAGE_TYPES[mimeType]);
+  const image = await prisma.storedImage.upsert({
+    where: { sha256 },
+    create: { id: uuidv4(), sha256, filePath: relPath, mimeType, byteSize: bytes.length, originalName: file.name || null },
+    update: {}
+  });
+
+  if (sessionId) {
+    await prisma.studySession.update({
+      where: { id: sessionId },
+      data: { imageSourceType: "upload", imageSource: image.filePath }
+    });
+  }
+
+  return NextResponse.json({
+    image: { id: image.id, sha256: image.sha256, mimeType: image.mimeType, byteSize: image.byteSize }
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { readStored } from "@/lib/storage";
+import { audioDurationMs } from "@/lib/tts/duration";
+
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string; condition: string }> }) {
+  const { id, condition } = await params;
+  const pack = await prisma.stimulusPack.findUnique({ where: { id } });
+  if (!pack) return NextResponse.json({ error: "Pack not found" }, { status: 404 });
+
+  const relPath =
+    condition === "emotion" ? pack.azureAudioPath : condition === "emotion_music" ? pack.openaiAudioPath : null;
+  if (!relPath) return NextResponse.json({ error: `No frozen audio for condition: ${condition}` }, { status: 404 });
+
+  const audio = await readStored(relPath);
+  const format = relPath.slice(relPath.lastIndexOf(".") + 1);
+  const durationMs = audioDurationMs(audio, format);
+  return new NextResponse(audio, {
+    headers: {
+      "Content-Type": format === "wav" ? "audio/wav" : "audio/mpeg",
+      ...(durationMs != null ? { "X-Audio-Duration-Ms": String(durationMs) } : {}),
+      // Stored content-addressed, but a draft's audio path can still change.
+      "Cache-Control": "no-cache"
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { MAX_SSML_CHARS } from "@/lib/ssml";
+import { isAllowedAzureVoice, validateAzureSsml } from "@/lib/tts/azure";
+import { PACK_STATUSES, setPackStatus, toPackInfo, updatePackSsml } from "@/lib/packs";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+const UpdateSchema = z.object({
+  // Only drafts can be edited; approved packs are frozen.
+  ssml: z.string().min(1).max(MAX_SSML_CHARS).optional(),
+  azureVoiceName: z.string().refine(isAllowedAzureVoice, "Voice is not allowed").optional(),
+  status: z.enum(PACK_STATUSES).optional()
+});
+
+export async function GET(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const pack = await prisma.stimulusPack.findUnique({ where: { id }, include: { description: true } });
+  if (!pack) return NextResponse.json({ error: "Pack not found" }, { status: 404 });
+  return NextResponse.json({ pack: toPackInfo(pack) });
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  let pack = await prisma.stimulusPack.findUnique({ where: { id }, include: { description: true } });
+  if (!pack) return NextResponse.json({ error: "Pack not found" }, { status: 404 });
+
+  const { ssml, azureVoiceName, status } = parsed.data;
+  const issues = ssml ? validateAzureSsml(ssml) : [];
+  if (issues.length) return NextResponse.json({ error: "Invalid SSML", issues }, { status: 400 });
+
+  if (ssml || azureVoiceName) {
+    if (pack.status !== "draft") {
+      return NextResponse.json({ error: "Only draft packs can be edited" }, { status: 409 });
+    }
+    pack = await updatePackSsml(pack.id, ssml ?? pack.ssml, azureVoiceName);
+  }
+  if (status && status !== pack.status) {
+    pack = await setPackStatus(pack, status);
+  }
+
+  return NextResponse.json({ pack: toPackInfo(pack) });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { MAX_SSML_CHARS } from "@/lib/ssml";
+import { DEFAULT_AZURE_VOICE, isAllowedAzureVoice, validateAzureSsml } from "@/lib/tts/azure";
+import { EMOTION_PRESETS, OPENAI_VOICES } from "@/lib/tts/openai";
+import { PACK_STATUSES, createPack, toPackInfo } from "@/lib/packs";
+import { DESCRIBE_MODELS, DescribeConfigError, DescribeOutputError, DescribeProviderError } from "@/lib/describe";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+const CreateSchema = z.object({
+  stimulusId: z.string().min(1),
+  // Reuse a description already generated in the workbench; otherwise a new one is generated.
+  descriptionId: z.string().min(1).optional(),
+  // Vision model for a newly generated description; defaults to DESCRIBE_MODEL.
+  describeModel: z.enum(DESCRIBE_MODELS).optional(),
+  // Condition 2 SSML as tuned in the workbench; defaults to plain SSML of the description.
+  ssml: z.string().max(MAX_SSML_CHARS).optional(),
+  azureVoiceName: z.string().refine(isAllowedAzureVoice, "Voice is not allowed").default(DEFAULT_AZURE_VOICE),
+  openaiVoice: z.enum(OPENAI_VOICES).default("coral"),
+  emotionPreset: z.enum(EMOTION_PRESETS).default("warm")
+});
+
+// GET /api/packs?stimulusId=...&status=approved
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const status = params.get("status");
+  // Approved packs are what participants hear; every other listing is for researchers.
+  if (status !== "approved") {
+    const denied = await requireResearcher(req);
+    if (denied) return denied;
+  }
+  if (status && !(PACK_STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+  }
+
+  const packs = await prisma.stimulusPack.findMany({
+    where: {
+      ...(params.get("stimulusId") ? { stimulusId: params.get("stimulusId")! } : {}),
+      ...(status ? { status } : {})
+    },
+    include: { description: true },
+    orderBy: { createdAt: "desc" }
+  });
+  return NextResponse.json({ packs: packs.map(toPackInfo) });
+}
+
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { stimulusId, ...opts } = parsed.data;
+  const issues = opts.ssml?.trim() ? validateAzureSsml(opts.ssml.trim()) : [];
+  if (issues.length) return NextResponse.json({ error: "Invalid SSML", issues }, { status: 400 });
+
+  const stimulus = await prisma.stimulus.findUnique({ where: { id: stimulusId } });
+  if (!stimulus) return NextResponse.json({ error: "Stimulus not found" }, { status: 404 });
+
+  let pack;
+  try {
+    pack = await createPack({ stimulus, ...opts });
+  } catch (e) {
+    if (e instanceof DescribeConfigError) return NextResponse.json({ error: e.message }, { status: 500 });
+    if (e instanceof DescribeProviderError || e instanceof DescribeOutputError) {
+      return NextResponse.json({ error: e.message }, { status: 502 });
+    }
+    throw e;
+  }
+  return NextResponse.json({ pack: toPackInfo(pack) }, { status: 201 });
+}
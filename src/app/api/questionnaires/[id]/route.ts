@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { questionnaireInclude, toQuestionnaireInfo } from "@/lib/questionnaires";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Items are immutable once saved (answers point at them); only activation can change.
+const UpdateSchema = z.object({ active: z.boolean() });
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const row = await prisma.questionnaire.findUnique({ where: { id }, include: questionnaireInclude });
+  if (!row) return NextResponse.json({ error: "Questionnaire not found" }, { status: 404 });
+  return NextResponse.json({ questionnaire: toQuestionnaireInfo(row) });
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.questionnaire.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Questionnaire not found" }, { status: 404 });
+
+  // At most one version of a key is active at a time.
+  if (parsed.data.active) {
+    await prisma.questionnaire.updateMany({ where: { key: existing.key, id: { not: id } }, data: { active: false } });
+  }
+  const row = await prisma.questionnaire.update({ where: { id }, data: parsed.data, include: questionnaireInclude });
+  return NextResponse.json({ questionnaire: toQuestionnaireInfo(row) });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  createQuestionnaireVersion,
+  questionnaireInclude,
+  QuestionnaireDefinitionSchema,
+  toQuestionnaireInfo
+} from "@/lib/questionnaires";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { findStudy, questionnaireKeysWhere, toStudyInfo } from "@/lib/studies";
+
+// GET /api/questionnaires                   -> active questionnaires (what participants are asked)
+// GET /api/questionnaires?scope=condition   -> only those asked per condition
+// GET /api/questionnaires?study=<id|slug>   -> only those the study asks
+// GET /api/questionnaires?all=1             -> include earlier versions
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const scope = params.get("scope");
+  const studyRef = params.get("study");
+  const study = studyRef ? await findStudy(studyRef) : null;
+  if (studyRef && !study) return NextResponse.json({ error: "Unknown study" }, { status: 404 });
+
+  const rows = await prisma.questionnaire.findMany({
+    where: {
+      ...(params.get("all") === "1" ? {} : { active: true }),
+      ...(scope ? { scope } : {}),
+      ...(study ? questionnaireKeysWhere(toStudyInfo(study)) : {})
+    },
+    include: questionnaireInclude,
+    orderBy: [{ key: "asc" }, { version: "desc" }]
+  });
+  return NextResponse.json({ questionnaires: rows.map(toQuestionnaireInfo) });
+}
+
+// POST a definition -> saved as the next version of its key; earlier versions are deactivated.
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = QuestionnaireDefinitionSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const questionnaire = await createQuestionnaireVersion(parsed.data);
+  return NextResponse.json({ questionnaire }, { status: 201 });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { analyzeRatings, toLongRows } from "@/lib/analysis";
+import { buildExport, DateUntilSchema, type ExportFilters } from "@/lib/export";
+import { prisma } from "@/lib/prisma";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { findStudy, questionnaireKeysWhere, toStudyInfo } from "@/lib/studies";
+
+const QuerySchema = z.object({
+  unit: z.enum(["participant", "trial"]).default("participant"),
+  from: z.coerce.date().optional(),
+  to: DateUntilSchema.optional(),
+  stimulusId: z.string().min(1).optional(),
+  studyId: z.string().min(1).optional(),
+  // "participant": participant sessions that were not screened out or timed out; "all" adds workbench test runs
+  // and ended sessions.
+  sessions: z.enum(["participant", "all"]).default("participant")
+});
+
+// GET /api/researcher/analysis?unit=participant|trial&studyId=<id or slug>&sessions=participant|all -> Friedman + Holm-corrected Wilcoxon tests per rating item.
+// Runs on the same long table as /api/export, so the numbers can be reproduced from an export with the same filters
+// (keeping rows whose session_source is participant and status in_progress or completed).
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = QuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+  }
+  const { unit, sessions, ...query } = parsed.data;
+
+  const studyRow = query.studyId ? await findStudy(query.studyId) : null;
+  if (query.studyId && !studyRow) {
+    return NextResponse.json({ error: `Unknown study "${query.studyId}"` }, { status: 404 });
+  }
+  const study = studyRow ? toStudyInfo(studyRow) : null;
+  const filters: ExportFilters = {
+    ...query,
+    studyId: study?.id,
+    ...(sessions === "participant" ? { source: "participant", statuses: ["in_progress", "completed"] } : {})
+  };
+
+  const [{ long }, items] = await Promise.all([
+    buildExport(filters),
+    prisma.questionnaireItem.findMany({
+      where: { questionnaire: { scope: "condition", ...(study ? questionnaireKeysWhere(study) : {}) } },
+      orderBy: { questionnaire: { version: "asc" } }
+    })
+  ]);
+  // Latest wording per item key
+  const questions = Object.fromEntries(items.map((item) => [item.key, item.text]));
+  const rows = toLongRows(long);
+  // A study is compared on its own conditions; without one, on the conditions found in the data.
+  const measures = study
+    ? analyzeRatings(rows, unit, questions, study.conditions)
+    : analyzeRatings(rows, unit, questions);
+  return NextResponse.json({ unit, sessions, filters, measures });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getListeningSummary } from "@/lib/dashboard";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// GET /api/researcher/listening?stimulusId=...&studyId=... -> listening time / completion per condition and rated-without-listening counts
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+  const params = new URL(req.url).searchParams;
+  return NextResponse.json(
+    await getListeningSummary({
+      stimulusId: params.get("stimulusId") ?? undefined,
+      studyId: params.get("studyId") ?? undefined
+    })
+  );
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { getOverview } from "@/lib/dashboard";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// GET /api/researcher/overview?studyId=... -> sessions started/completed, design balance, responses per stimulus × condition
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+  const studyId = new URL(req.url).searchParams.get("studyId") ?? undefined;
+  return NextResponse.json(await getOverview({ studyId }));
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getRatingSummary } from "@/lib/dashboard";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// GET /api/researcher/ratings?stimulusId=...&studyId=... -> descriptives and 1-7 distributions of each rating item per condition
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+  const params = new URL(req.url).searchParams;
+  return NextResponse.json(
+    await getRatingSummary({
+      stimulusId: params.get("stimulusId") ?? undefined,
+      studyId: params.get("studyId") ?? undefined
+    })
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { DateUntilSchema } from "@/lib/export";
+import { rateLimits } from "@/lib/rateLimit";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { getUsageReport } from "@/lib/usage";
+
+const QuerySchema = z.object({
+  sessionId: z.string().min(1).optional(),
+  studyId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: DateUntilSchema.optional()
+});
+
+// GET /api/researcher/usage?studyId=...&sessionId=...&from=...&to=... -> paid provider calls and estimated cost,
+// in total, per provider and per session, plus the configured rate limits
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const parsed = QuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+  }
+  return NextResponse.json({ ...(await getUsageReport(parsed.data)), limits: rateLimits() });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { hashPassword, requireResearcher, ResearcherFieldsSchema, toResearcherInfo } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The email is the sign-in name and stays fixed; accounts are deactivated rather than deleted.
+const UpdateSchema = ResearcherFieldsSchema.pick({ name: true, password: true })
+  .partial()
+  .extend({ active: z.boolean().optional() });
+
+// PATCH { name?, password?, active? }
+export async function PATCH(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.researcher.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Researcher not found" }, { status: 404 });
+
+  const { password, ...fields } = parsed.data;
+  const row = await prisma.researcher.update({
+    where: { id },
+    data: { ...fields, ...(password ? { passwordHash: await hashPassword(password) } : {}) }
+  });
+  return NextResponse.json({ researcher: toResearcherInfo(row) });
+}
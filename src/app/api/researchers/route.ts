@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { hashPassword, requireResearcher, ResearcherFieldsSchema, toResearcherInfo } from "@/lib/researcherAuth";
+
+export const runtime = "nodejs";
+
+// GET /api/researchers -> every account
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const rows = await prisma.researcher.findMany({ orderBy: { createdAt: "asc" } });
+  return NextResponse.json({ researchers: rows.map(toResearcherInfo) });
+}
+
+// POST { email, name?, password } -> a new account. The first one is created after signing in with
+// RESEARCHER_TOKEN.
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = ResearcherFieldsSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { password, ...fields } = parsed.data;
+  try {
+    const row = await prisma.researcher.create({
+      data: { id: uuidv4(), ...fields, passwordHash: await hashPassword(password) }
+    });
+    return NextResponse.json({ researcher: toResearcherInfo(row) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return NextResponse.json({ error: `An account for ${fields.email} already exists` }, { status: 409 });
+    }
+    throw e;
+  }
+}
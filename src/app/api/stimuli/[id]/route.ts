@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { StimulusFieldsSchema, toStimulusInfo } from "@/lib/stimuli";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+type Params = { params: Promise<{ id: string }> };
+
+const UpdateSchema = StimulusFieldsSchema.partial();
+
+export async function GET(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const row = await prisma.stimulus.findUnique({ where: { id } });
+  if (!row) return NextResponse.json({ error: "Stimulus not found" }, { status: 404 });
+  return NextResponse.json({ stimulus: toStimulusInfo(row) });
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.stimulus.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Stimulus not found" }, { status: 404 });
+
+  const { styleTags, ...fields } = parsed.data;
+  const row = await prisma.stimulus.update({
+    where: { id },
+    data: { ...fields, ...(styleTags ? { styleTags: JSON.stringify(styleTags) } : {}) }
+  });
+
+  return NextResponse.json({ stimulus: toStimulusInfo(row) });
+}
+
+// Retire rather than delete: past sessions still reference the stimulus.
+export async function DELETE(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const existing = await prisma.stimulus.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Stimulus not found" }, { status: 404 });
+
+  const row = await prisma.stimulus.update({ where: { id }, data: { active: false } });
+  return NextResponse.json({ stimulus: toStimulusInfo(row) });
+}
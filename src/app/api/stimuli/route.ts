@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { StimulusFieldsSchema, toStimulusInfo } from "@/lib/stimuli";
+import { requireResearcher } from "@/lib/researcherAuth";
+
+// GET /api/stimuli            -> active stimuli (what participants may be shown)
+// GET /api/stimuli?all=1      -> include retired stimuli
+export async function GET(req: Request) {
+  const includeRetired = new URL(req.url).searchParams.get("all") === "1";
+  if (includeRetired) {
+    const denied = await requireResearcher(req);
+    if (denied) return denied;
+  }
+  const rows = await prisma.stimulus.findMany({
+    where: includeRetired ? undefined : { active: true },
+    orderBy: { createdAt: "asc" }
+  });
+  return NextResponse.json({ stimuli: rows.map(toStimulusInfo) });
+}
+
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = StimulusFieldsSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { styleTags, ...fields } = parsed.data;
+  const row = await prisma.stimulus.create({
+    data: { id: uuidv4(), ...fields, styleTags: JSON.stringify(styleTags ?? []) }
+  });
+
+  return NextResponse.json({ stimulus: toStimulusInfo(row) }, { status: 201 });
+}
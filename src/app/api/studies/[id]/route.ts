@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { DESIGN_FIELDS, findStudy, StudyFieldsSchema, toStudyData, toStudyInfo } from "@/lib/studies";
+
+type Params = { params: Promise<{ id: string }> };
+
+const UpdateSchema = StudyFieldsSchema.partial();
+
+// GET /api/studies/<id or slug>
+export async function GET(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const row = await findStudy(id);
+  if (!row) return NextResponse.json({ error: "Study not found" }, { status: 404 });
+  const sessionCount = await prisma.studySession.count({ where: { studyId: row.id } });
+  return NextResponse.json({ study: { ...toStudyInfo(row), sessionCount } });
+}
+
+// PATCH any study field, e.g. { status: "active" } to open it or { status: "closed" } to stop new sessions.
+export async function PATCH(req: Request, { params }: Params) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await findStudy(id);
+  if (!existing) return NextResponse.json({ error: "Study not found" }, { status: 404 });
+
+  // Changing the conditions or ordering would leave earlier sessions in a different design.
+  const redesign = DESIGN_FIELDS.filter((f) => parsed.data[f] !== undefined);
+  if (redesign.length && (await prisma.studySession.count({ where: { studyId: existing.id } }))) {
+    return NextResponse.json(
+      { error: `${redesign.join(" and ")} cannot change once the study has sessions; create a new study instead` },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const row = await prisma.study.update({ where: { id: existing.id }, data: toStudyData(parsed.data) });
+    return NextResponse.json({ study: toStudyInfo(row) });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return NextResponse.json({ error: `A study with slug "${parsed.data.slug}" already exists` }, { status: 409 });
+    }
+    throw e;
+  }
+}
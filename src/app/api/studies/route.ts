@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { StudyFieldsSchema, toStudyData, toStudyInfo } from "@/lib/studies";
+
+// GET /api/studies -> every study, with its number of sessions
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const rows = await prisma.study.findMany({ include: { _count: { select: { sessions: true } } }, orderBy: { createdAt: "asc" } });
+  return NextResponse.json({
+    studies: rows.map(({ _count, ...row }) => ({ ...toStudyInfo(row), sessionCount: _count.sessions }))
+  });
+}
+
+// POST { slug, name, conditions?, stimulusIds?, questionnaireKeys?, stimuliPerParticipant?, ordering?, status? }
+// -> a new study, a draft unless a status is given.
+export async function POST(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => null);
+  const parsed = StudyFieldsSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const row = await prisma.study.create({ data: { id: uuidv4(), ...toStudyData(parsed.data) } });
+    return NextResponse.json({ study: toStudyInfo(row) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return NextResponse.json({ error: `A study with slug "${parsed.data.slug}" already exists` }, { status: 409 });
+    }
+    throw e;
+  }
+}
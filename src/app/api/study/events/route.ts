@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { requireSessionAccess } from "@/lib/participantAuth";
+import { prisma } from "@/lib/prisma";
+import { computePlaybackMetrics } from "@/lib/playback";
+import { requireResearcher } from "@/lib/researcherAuth";
+import { PLAYBACK_EVENT_TYPES } from "@/lib/types";
+
+const EventSchema = z.object({
+  stimulusKey: z.string().min(1),
+  condition: z.enum(["tts", "emotion", "emotion_music"]),
+  type: z.enum(PLAYBACK_EVENT_TYPES),
+  clientTs: z.number().int().positive(),
+  seq: z.number().int().min(0),
+  source: z.enum(["system", "generated", "frozen"]).optional(),
+  positionMs: z.number().int().min(0).optional(),
+  durationMs: z.number().int().min(0).optional(),
+  charIndex: z.number().int().min(0).optional(),
+  charLength: z.number().int().min(0).optional()
+});
+
+const BodySchema = z.object({
+  sessionId: z.string().min(1),
+  events: z.array(EventSchema).min(1).max(200)
+});
+
+// POST /api/study/events -> batch of playback events from AudioPlayer (also sent via navigator.sendBeacon)
+export async function POST(req: Request) {
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { sessionId, events } = parsed.data;
+  const forbidden = await requireSessionAccess(req, sessionId);
+  if (forbidden) return forbidden;
+  const session = await prisma.studySession.findUnique({ where: { id: sessionId }, include: { assignments: true } });
+  if (!session) return NextResponse.json({ error: "Unknown session" }, { status: 404 });
+
+  const stimulusIdByKey = new Map(session.assignments.map((a) => [a.stimulusKey, a.stimulusId]));
+  const { count } = await prisma.playbackEvent.createMany({
+    data: events.map(({ clientTs, ...e }) => ({
+      id: uuidv4(),
+      sessionId,
+      stimulusId: stimulusIdByKey.get(e.stimulusKey) ?? null,
+      clientTs: new Date(clientTs),
+      ...e
+    }))
+  });
+
+  return NextResponse.json({ ok: true, count });
+}
+
+// GET /api/study/events?sessionId=...&stimulusKey=... -> raw events and derived metrics (researcher only)
+export async function GET(req: Request) {
+  const denied = await requireResearcher(req);
+  if (denied) return denied;
+
+  const params = new URL(req.url).searchParams;
+  const sessionId = params.get("sessionId");
+  if (!sessionId) return NextResponse.json({ error: "sessionId is required" }, { status: 400 });
+
+  const events = await prisma.playbackEvent.findMany({
+    where: { sessionId, ...(params.get("stimulusKey") ? { stimulusKey: params.get("stimulusKey")! } : {}) },
+    orderBy: [{ clientTs: "asc" }, { seq: "asc" }]
+  });
+  return NextResponse.json({ events, metrics: computePlaybackMetrics(events) });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { generateCompletionCode, isSessionComplete, redirectUrlFor, requireOpenSession } from "@/lib/panel";
+import { requireSessionAccess } from "@/lib/participantAuth";
+
+// Participants can only complete their own session. Screen-outs (declined consent, /api/study/start) and
+// timeouts (expireStaleSessions) are decided by the server.
+const BodySchema = z.object({
+  sessionId: z.string().min(1),
+  outcome: z.literal("completed")
+});
+
+// POST { sessionId, outcome: "completed" } -> ends the session with a unique completion code.
+// Returns where to send the participant (see STUDY_*_URL in src/lib/panel.ts).
+export async function POST(req: Request) {
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { sessionId, outcome } = parsed.data;
+  const forbidden = await requireSessionAccess(req, sessionId);
+  if (forbidden) return forbidden;
+  const closed = await requireOpenSession(sessionId);
+  if (closed) return closed;
+
+  if (!(await isSessionComplete(sessionId))) {
+    return NextResponse.json({ error: "Not every version of every stimulus has been rated yet" }, { status: 409 });
+  }
+
+  // Retry on the (unlikely) collision with an existing code.
+  for (let attempt = 0; ; attempt++) {
+    const completionCode = generateCompletionCode();
+    try {
+      const session = await prisma.studySession.update({
+        where: { id: sessionId },
+        data: { status: outcome, endedAt: new Date(), completionCode }
+      });
+      return NextResponse.json({
+        status: session.status,
+        completionCode,
+        redirectUrl: redirectUrlFor(outcome, { code: completionCode, participantId: session.participantId, sessionId })
+      });
+    } catch (e) {
+      const collision = e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002";
+      if (!collision || attempt >= 4) throw e;
+    }
+  }
+}
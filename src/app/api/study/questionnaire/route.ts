@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { requireOpenSession } from "@/lib/panel";
+import { requireSessionAccess } from "@/lib/participantAuth";
+import { validateAnswers } from "@/lib/questionnaires";
+import { sessionStudy } from "@/lib/studies";
+
+// Answers to the session-level questionnaires (background / demographics), keyed by QuestionnaireItem id.
+const BodySchema = z.object({
+  sessionId: z.string().min(1),
+  items: z.record(z.union([z.number(), z.string(), z.array(z.string())]))
+});
+
+export async function POST(req: Request) {
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { sessionId, items } = parsed.data;
+  const forbidden = await requireSessionAccess(req, sessionId);
+  if (forbidden) return forbidden;
+  const closed = await requireOpenSession(sessionId);
+  if (closed) return closed;
+
+  const study = await sessionStudy(sessionId);
+  const { answers, errors } = await validateAnswers(items, "session", study?.questionnaireKeys);
+  if (Object.keys(errors).length) {
+    return NextResponse.json({ error: "Invalid questionnaire answers", details: errors }, { status: 400 });
+  }
+
+  // Session answers use "" for stimulusKey and condition (see ItemResponse); re-submitting replaces them.
+  const saved = await prisma.$transaction(
+    answers.map(({ item, stored }) =>
+      prisma.itemResponse.upsert({
+        where: { sessionId_itemId_stimulusKey_condition: { sessionId, itemId: item.id, stimulusKey: "", condition: "" } },
+        create: { id: uuidv4(), sessionId, itemId: item.id, ...stored },
+        update: stored
+      })
+    )
+  );
+
+  return NextResponse.json({ ok: true, itemResponseIds: saved.map((r) => r.id) });
+}
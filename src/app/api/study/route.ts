@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { resolveStudy, toStudyInfo } from "@/lib/studies";
+import type { StudySummary } from "@/lib/types";
+
+// GET /api/study?study=<slug> -> the study a participant link opens (without ?study=, the only active one)
+export async function GET(req: Request) {
+  const ref = new URL(req.url).searchParams.get("study");
+  const row = await resolveStudy(ref);
+  if (!row) {
+    return NextResponse.json({ error: ref ? "Study not found" : "No single study is active" }, { status: 404 });
+  }
+  const { id, slug, name, status, conditions } = toStudyInfo(row);
+  const study: StudySummary = { id, slug, name, status, conditionCount: conditions.length };
+  return NextResponse.json({ study });
+}
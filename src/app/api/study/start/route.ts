@@ -1,18 +1,181 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { v4 as uuidv4 } from "uuid";
+import { getActiveConsentForm, toConsentFormInfo } from "@/lib/consent";
+import { assignedOrder, sessionOrders } from "@/lib/counterbalance";
+import { expireStaleSessions, panelIdsFrom, redirectUrlFor } from "@/lib/panel";
+import { setParticipantCookie } from "@/lib/participantAuth";
+import { researcherFrom } from "@/lib/researcherAuth";
+import { pickStudyStimuli, resolveStudy, toStudyInfo } from "@/lib/studies";
+import type { AudioMode, SessionStatus } from "@/lib/types";
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const participantId = typeof body.participantId === "string" ? body.participantId : undefined;
+
+  // Query parameters /study was opened with; panel participants are identified by these rather than a typed id.
+  const entry: Record<string, string> =
+    body.entry && typeof body.entry === "object"
+      ? Object.fromEntries(Object.entries(body.entry).filter((e): e is [string, string] => typeof e[1] === "string"))
+      : {};
+  const panel = panelIdsFrom(entry);
+  const participantId = panel.participantId ?? (typeof body.participantId === "string" ? body.participantId : undefined);
+
+  // Workbench sessions name their stimuli (in presentation order, duplicates ignored); participant
+  // sessions leave them out and get the study's selection.
+  const requestedKeys: string[] | null = Array.isArray(body.stimulusKeys)
+    ? Array.from(new Set(body.stimulusKeys.filter((k: unknown): k is string => typeof k === "string" && k.length > 0)))
+    : null;
+  if (requestedKeys && !(await researcherFrom(req))) {
+    return NextResponse.json({ error: "Only researchers can choose the stimuli of a session" }, { status: 403 });
+  }
+
+  const studyRef = typeof body.study === "string" ? body.study : entry.study;
+  const studyRow = await resolveStudy(studyRef);
+  if (!studyRow) {
+    return studyRef
+      ? NextResponse.json({ error: `Unknown study "${studyRef}"` }, { status: 404 })
+      : NextResponse.json({ error: "Several studies are active; open the study link with ?study=<slug>" }, { status: 400 });
+  }
+  const study = toStudyInfo(studyRow);
+  // Drafts can be piloted from the workbench only; closed studies take no new sessions.
+  if (study.status === "closed" || (study.status === "draft" && !requestedKeys)) {
+    return NextResponse.json({ error: "This study is not open", studyStatus: study.status }, { status: 403 });
+  }
+
+  await expireStaleSessions();
+
+  // A panel participant takes part once per study: an unfinished session is resumed, a finished one
+  // blocks a new start.
+  const existing = panel.participantId
+    ? await prisma.studySession.findFirst({
+        where: { studyId: study.id, participantId: panel.participantId },
+        include: {
+          assignments: { orderBy: { position: "asc" } },
+          responses: { select: { stimulusKey: true, condition: true } }
+        },
+        orderBy: { createdAt: "desc" }
+      })
+    : null;
+  if (existing && existing.status !== "in_progress") {
+    const status = existing.status as Exclude<SessionStatus, "in_progress">;
+    return NextResponse.json(
+      {
+        error: "You have already taken part in this study",
+        status,
+        completionCode: existing.completionCode,
+        redirectUrl: redirectUrlFor(status, { code: existing.completionCode, participantId, sessionId: existing.id })
+      },
+      { status: 409 }
+    );
+  }
+
+  // Declining consent screens the participant out; the session is kept only to record that outcome.
+  if (body.consentDeclined === true) {
+    const outcome = { status: "screened_out", endedAt: new Date(), endReason: "consent_declined" };
+    const session = existing
+      ? await prisma.studySession.update({ where: { id: existing.id }, data: outcome })
+      : await prisma.studySession.create({
+          data: {
+            id: uuidv4(),
+            studyId: study.id,
+            participantId,
+            externalStudyId: panel.externalStudyId,
+            externalSessionId: panel.externalSessionId,
+            userAgent: req.headers.get("user-agent") ?? undefined,
+            locale: req.headers.get("accept-language") ?? undefined,
+            ...outcome
+          }
+        });
+    return NextResponse.json({
+      sessionId: session.id,
+      status: session.status,
+      redirectUrl: redirectUrlFor("screened_out", { participantId, sessionId: session.id })
+    });
+  }
+
+  // A session can only be created once the participant has accepted the active consent form.
+  const consentForm = await getActiveConsentForm();
+  if (!consentForm) {
+    return NextResponse.json({ error: "No consent form is active (see /api/consent)" }, { status: 500 });
+  }
+  if (body.consentFormId !== consentForm.id) {
+    return NextResponse.json(
+      { error: "The active consent form must be accepted first", consentForm: toConsentFormInfo(consentForm) },
+      { status: 409 }
+    );
+  }
+
+  if (existing) {
+    const session = await prisma.studySession.update({
+      where: { id: existing.id },
+      data: { consentFormId: consentForm.id, consentedAt: new Date() }
+    });
+    const assignments: Record<string, AudioMode[]> = Object.fromEntries(
+      existing.assignments.map((a) => [a.stimulusKey, assignedOrder(a)])
+    );
+    // Conditions already rated per stimulus, so the participant carries on where they left off.
+    const answered: Record<string, AudioMode[]> = {};
+    for (const r of existing.responses) (answered[r.stimulusKey] ??= []).push(r.condition as AudioMode);
+    return setParticipantCookie(
+      NextResponse.json({ sessionId: session.id, studyId: study.id, assignments, answered, resumed: true }),
+      session.id
+    );
+  }
 
   const id = uuidv4();
   const ua = req.headers.get("user-agent") ?? undefined;
   const locale = req.headers.get("accept-language") ?? undefined;
 
+  const stimulusKeys = requestedKeys ?? (await pickStudyStimuli(study));
+  if (stimulusKeys.length === 0) {
+    return NextResponse.json({ error: "The study has no stimuli with an approved pack" }, { status: 409 });
+  }
+
+  // Keys that name a catalog stimulus are linked to it; anything else (e.g. "upload") is kept as a bare key.
+  const catalog = await prisma.stimulus.findMany({ where: { id: { in: stimulusKeys } }, select: { id: true } });
+  const catalogIds = new Set(catalog.map((s) => s.id));
+
+  // Rotation counts only the study's participant sessions that were given a row: screen-outs at consent never
+  // get one, and workbench test runs take the next row without advancing the rotation. Sessions abandoned or
+  // timed out later keep their row; rows are handed out in start order, as from a pre-generated list.
+  const rotationIndex = await prisma.studySession.count({
+    where: { studyId: study.id, source: "participant", counterbalanceRow: { not: null } }
+  });
+  const { counterbalanceRow, orders: conditionOrders } = sessionOrders(study, rotationIndex, stimulusKeys.length);
+  const orders = stimulusKeys.map((stimulusKey, position) => ({
+    stimulusKey,
+    position,
+    order: conditionOrders[position]
+  }));
+
   await prisma.studySession.create({
-    data: { id, participantId, userAgent: ua, locale }
+    data: {
+      id,
+      studyId: study.id,
+      participantId,
+      externalStudyId: panel.externalStudyId,
+      externalSessionId: panel.externalSessionId,
+      userAgent: ua,
+      locale,
+      source: requestedKeys ? "workbench" : "participant",
+      counterbalanceRow,
+      consentFormId: consentForm.id,
+      consentedAt: new Date(),
+      assignments: {
+        create: orders.map(({ stimulusKey, position, order: [conditionA, conditionB, conditionC] }) => ({
+          id: uuidv4(),
+          stimulusKey,
+          stimulusId: catalogIds.has(stimulusKey) ? stimulusKey : undefined,
+          position,
+          conditionA,
+          conditionB,
+          conditionC: conditionC ?? null
+        }))
+      }
+    }
   });
 
-  return NextResponse.json({ sessionId: id });
+  const assignments: Record<string, AudioMode[]> = Object.fromEntries(orders.map((o) => [o.stimulusKey, o.order]));
+  // The cookie lets the browser answer for this session only (see src/lib/participantAuth.ts).
+  return setParticipantCookie(NextResponse.json({ sessionId: id, studyId: study.id, assignments }), id);
 }
@@ -2,16 +2,40 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
+import { assignedOrder, isSameOrder } from "@/lib/counterbalance";
+import { requireOpenSession } from "@/lib/panel";
+import { requireSessionAccess } from "@/lib/participantAuth";
+import { conditionResponseColumn, scoredValue, validateAnswers } from "@/lib/questionnaires";
+import { sessionStudy } from "@/lib/studies";
 
-const SubmitSchema = z.object({
-  sessionId: z.string().min(1),
-  conditionA: z.literal("tts"),
-  conditionB: z.literal("emotion"),
-  conditionC: z.literal("emotion+music"),
+const ConditionSchema = z.enum(["tts", "emotion", "emotion_music"]);
+
+const ConditionRatingsSchema = z.object({
+  condition: ConditionSchema,
   ratingStyleComprehension: z.number().int().min(1).max(7).optional(),
   ratingEmotionalFit: z.number().int().min(1).max(7).optional(),
   ratingEnjoyment: z.number().int().min(1).max(7).optional(),
-  freeText: z.string().max(2000).optional()
+  freeText: z.string().max(2000).optional(),
+  // Questionnaire answers keyed by QuestionnaireItem id (see /api/questionnaires?scope=condition).
+  // The fixed rating fields above are still accepted from older clients.
+  items: z.record(z.union([z.number(), z.string(), z.array(z.string())])).optional()
+});
+
+const SubmitSchema = z.object({
+  sessionId: z.string().min(1),
+  stimulusKey: z.string().min(1),
+  // The order the participant was shown; must match the server-assigned order.
+  conditionA: ConditionSchema,
+  conditionB: ConditionSchema,
+  // Left out in studies comparing two conditions.
+  conditionC: ConditionSchema.optional(),
+  // Description version that was spoken for this stimulus
+  descriptionId: z.string().min(1).optional(),
+  responses: z
+    .array(ConditionRatingsSchema)
+    .min(1)
+    .max(3)
+    .refine((rs) => new Set(rs.map((r) => r.condition)).size === rs.length, "Each condition may only be rated once.")
 });
 
 export async function POST(req: Request) {
@@ -21,10 +45,92 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
   }
 
-  const id = uuidv4();
-  await prisma.trial.create({
-    data: { id, ...parsed.data, conditionC: "emotion+music" }
+  const { sessionId, stimulusKey, conditionA, conditionB, conditionC, descriptionId, responses } = parsed.data;
+  const forbidden = await requireSessionAccess(req, sessionId);
+  if (forbidden) return forbidden;
+  const closed = await requireOpenSession(sessionId);
+  if (closed) return closed;
+
+  const assignment = await prisma.conditionAssignment.findUnique({
+    where: { sessionId_stimulusKey: { sessionId, stimulusKey } }
+  });
+  if (!assignment) {
+    return NextResponse.json({ error: "No condition order was assigned for this session and stimulus" }, { status: 404 });
+  }
+
+  const assigned = assignedOrder(assignment);
+  const shown = conditionC ? [conditionA, conditionB, conditionC] : [conditionA, conditionB];
+  if (!isSameOrder(shown, assigned)) {
+    return NextResponse.json(
+      { error: "Condition order does not match the order assigned for this session", assigned },
+      { status: 409 }
+    );
+  }
+
+  const unassigned = responses.filter((r) => !assigned.includes(r.condition)).map((r) => r.condition);
+  if (unassigned.length) {
+    return NextResponse.json({ error: `Not a condition of this study: ${unassigned.join(", ")}` }, { status: 400 });
+  }
+
+  if (descriptionId && !(await prisma.description.findUnique({ where: { id: descriptionId } }))) {
+    return NextResponse.json({ error: "Unknown descriptionId" }, { status: 404 });
+  }
+
+  // Questionnaire answers; older clients send only the fixed rating fields and skip the required-item check.
+  const study = await sessionStudy(sessionId);
+  const itemErrors: Record<string, string> = {};
+  const checked = await Promise.all(
+    responses.map(async ({ condition, items }) => {
+      if (!items) return [];
+      const { answers, errors } = await validateAnswers(items, "condition", study?.questionnaireKeys);
+      for (const [itemId, message] of Object.entries(errors)) itemErrors[`${condition}.${itemId}`] = message;
+      return answers;
+    })
+  );
+  if (Object.keys(itemErrors).length) {
+    return NextResponse.json({ error: "Invalid questionnaire answers", details: itemErrors }, { status: 400 });
+  }
+
+  // Answers to items named like a rating measure (and "free_text") also fill the ConditionResponse columns.
+  const mirrored = checked.map((answers) => {
+    const columns: Record<string, number | string | null> = {};
+    for (const { item, stored } of answers) {
+      const column = conditionResponseColumn(item);
+      if (column === "freeText") columns.freeText = stored.text;
+      else if (column) columns[column] = scoredValue(item, stored.value);
+    }
+    return columns;
   });
 
-  return NextResponse.json({ ok: true, trialId: id });
+  // Re-submitting a condition replaces its earlier ratings. Ratings and item answers are saved together or
+  // not at all.
+  const conditionWrites = responses.map(({ condition, items: _items, ...ratings }, i) =>
+    prisma.conditionResponse.upsert({
+      where: { sessionId_stimulusKey_condition: { sessionId, stimulusKey, condition } },
+      create: {
+        id: uuidv4(),
+        sessionId,
+        stimulusKey,
+        stimulusId: assignment.stimulusId,
+        condition,
+        position: assigned.indexOf(condition),
+        descriptionId,
+        ...ratings,
+        ...mirrored[i]
+      },
+      update: { descriptionId, ...ratings, ...mirrored[i] }
+    })
+  );
+  const itemWrites = responses.flatMap(({ condition }, i) =>
+    checked[i].map(({ item, stored }) =>
+      prisma.itemResponse.upsert({
+        where: { sessionId_itemId_stimulusKey_condition: { sessionId, itemId: item.id, stimulusKey, condition } },
+        create: { id: uuidv4(), sessionId, itemId: item.id, stimulusKey, condition, ...stored },
+        update: stored
+      })
+    )
+  );
+  const saved = await prisma.$transaction([...conditionWrites, ...itemWrites]);
+
+  return NextResponse.json({ ok: true, responseIds: saved.slice(0, conditionWrites.length).map((r) => r.id) });
 }
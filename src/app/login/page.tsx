@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+
+// Researcher sign-in: an account (email + password) or, for small teams, the shared RESEARCHER_TOKEN.
+// Researcher pages redirect here with ?next=<where they came from>.
+
+export default function LoginPage() {
+  const [useToken, setUseToken] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [token, setToken] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(useToken ? { token } : { email, password }),
+      });
+      if (!res.ok) {
+        setError((await res.json().catch(() => null))?.error ?? `Sign-in failed (${res.status})`);
+        return;
+      }
+      // Only same-site paths, so the link cannot send researchers elsewhere.
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.assign(next?.startsWith("/") && !next.startsWith("//") ? next : "/researcher");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="card" style={{ maxWidth: 420 }}>
+      <h1>Researcher sign-in</h1>
+      <form onSubmit={signIn} style={{ display: "grid", gap: 8 }}>
+        {useToken ? (
+          <>
+            <label htmlFor="token">Researcher token</label>
+            <input id="token" type="password" value={token} onChange={(e) => setToken(e.target.value)} />
+          </>
+        ) : (
+          <>
+            <label htmlFor="email">Email</label>
+            <input id="email" type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} />
+            <label htmlFor="password">Password</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </>
+        )}
+        {error && <div className="small" style={{ color: "#b91c1c" }}>{error}</div>}
+        <div className="row" style={{ marginTop: 4 }}>
+          <button type="submit" disabled={busy || (useToken ? !token : !email || !password)}>
+            {busy ? "Signing in…" : "Sign in"}
+          </button>
+          <button type="button" className="secondary" onClick={() => setUseToken((v) => !v)}>
+            {useToken ? "Use an account" : "Use the shared token"}
+          </button>
+        </div>
+      </form>
+    </main>
+  );
+}
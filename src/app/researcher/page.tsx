@@ -0,0 +1,504 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import { CONDITIONS } from "@/lib/counterbalance";
+import type { AnalysisUnit, MeasureAnalysis } from "@/lib/analysis";
+import type { getListeningSummary, getOverview, RatingSummary } from "@/lib/dashboard";
+import type { Descriptives } from "@/lib/stats";
+import type { rateLimits } from "@/lib/rateLimit";
+import type { getUsageReport } from "@/lib/usage";
+import { RATING_MEASURES, type AudioMode, type StudyInfo } from "@/lib/types";
+
+type Overview = Awaited<ReturnType<typeof getOverview>>;
+type ListeningSummary = Awaited<ReturnType<typeof getListeningSummary>>;
+type StudyListing = StudyInfo & { sessionCount: number };
+type UsageReport = Awaited<ReturnType<typeof getUsageReport>> & { limits: ReturnType<typeof rateLimits> };
+
+const REFRESH_MS = 30_000;
+
+const CONDITION_LABELS: Record<AudioMode, string> = {
+  tts: "TTS",
+  emotion: "Emotion",
+  emotion_music: "Emotion + music",
+};
+
+const cell: CSSProperties = { padding: "4px 8px", borderBottom: "1px solid #e5e7eb", textAlign: "right" };
+const headCell: CSSProperties = { ...cell, fontWeight: 600 };
+const firstCell: CSSProperties = { ...cell, textAlign: "left" };
+
+function fmt(x: number | null, digits = 2) {
+  return x == null ? "–" : x.toFixed(digits);
+}
+
+function fmtUsd(x: number) {
+  return `$${x.toFixed(x < 1 ? 4 : 2)}`;
+}
+
+function fmtP(p: number | null) {
+  if (p == null) return "–";
+  return p < 0.001 ? "<.001" : p.toFixed(3).replace(/^0/, "");
+}
+
+function Distribution({ counts }: { counts: number[] }) {
+  const max = Math.max(1, ...counts);
+  return (
+    <div style={{ display: "flex", gap: 2, alignItems: "flex-end", height: 28 }} title={counts.join(" / ")}>
+      {counts.map((n, i) => (
+        <div key={i} style={{ width: 10, height: `${(n / max) * 100}%`, minHeight: 1, background: "#111" }} />
+      ))}
+    </div>
+  );
+}
+
+function DescriptivesCells({ d, digits }: { d: Descriptives; digits?: number }) {
+  return (
+    <>
+      <td style={cell}>{d.n}</td>
+      <td style={cell}>{fmt(d.mean, digits)}</td>
+      <td style={cell}>{fmt(d.median, digits)}</td>
+      <td style={cell}>{fmt(d.sd, digits)}</td>
+    </>
+  );
+}
+
+export default function ResearcherPage() {
+  const [studies, setStudies] = useState<StudyListing[]>([]);
+  const [studyId, setStudyId] = useState("");
+  const [stimulusId, setStimulusId] = useState("");
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [ratings, setRatings] = useState<RatingSummary | null>(null);
+  const [listening, setListening] = useState<ListeningSummary | null>(null);
+  const [unit, setUnit] = useState<AnalysisUnit>("participant");
+  const [analysis, setAnalysis] = useState<MeasureAnalysis[] | null>(null);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+
+  // The page is only served to signed-in researchers (src/middleware.ts); requests carry the session cookie.
+  const load = useCallback(async () => {
+    const filters = new URLSearchParams({ ...(studyId && { studyId }), ...(stimulusId && { stimulusId }) });
+    const get = async (path: string) => {
+      const res = await fetch(path);
+      if (res.status === 401) {
+        window.location.assign(`/login?next=${encodeURIComponent("/researcher")}`);
+        throw new Error("Your session has expired; please sign in again.");
+      }
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error ?? `Request failed (${res.status})`);
+      return res.json();
+    };
+    try {
+      const byStudy = studyId ? `?studyId=${encodeURIComponent(studyId)}` : "";
+      const [s, o, r, l, a, u] = await Promise.all([
+        get("/api/studies"),
+        get(`/api/researcher/overview${byStudy}`),
+        get(`/api/researcher/ratings?${filters}`),
+        get(`/api/researcher/listening?${filters}`),
+        get(`/api/researcher/analysis?unit=${unit}&${filters}`),
+        get(`/api/researcher/usage${byStudy}`),
+      ]);
+      setStudies(s.studies);
+      setOverview(o);
+      setRatings(r);
+      setListening(l);
+      setAnalysis(a.measures);
+      setUsage(u);
+      setError(null);
+      setUpdatedAt(new Date());
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to load dashboard.");
+    }
+  }, [studyId, stimulusId, unit]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Tables show the selected study's conditions; across studies, all of them.
+  const conditions = studies.find((st) => st.id === studyId)?.conditions ?? CONDITIONS;
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.assign("/login");
+  }
+
+  return (
+    <main style={{ display: "grid", gap: 16 }}>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <h1>Researcher dashboard</h1>
+        <div className="row">
+          <div style={{ minWidth: 240 }}>
+            <select value={studyId} onChange={(e) => setStudyId(e.target.value)}>
+              <option value="">All studies</option>
+              {studies.map((st) => (
+                <option key={st.id} value={st.id}>
+                  {st.name} ({st.status}, {st.sessionCount} sessions)
+                </option>
+              ))}
+            </select>
+          </div>
+          <span className="small">{updatedAt ? `Updated ${updatedAt.toLocaleTimeString()}` : "Loading…"}</span>
+          <button className="secondary" onClick={load}>
+            Refresh
+          </button>
+          <button className="secondary" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="card" style={{ borderColor: "#b91c1c", color: "#b91c1c" }}>
+          {error}
+        </div>
+      )}
+
+      {overview && (
+        <div className="grid">
+          <section className="card">
+            <h2>Sessions</h2>
+            <div className="row" style={{ gap: 24 }}>
+              <div>
+                <div style={{ fontSize: 24, fontWeight: 700 }}>{overview.sessions.started}</div>
+                <div className="small">started</div>
+              </div>
+              <div>
+                <div style={{ fontSize: 24, fontWeight: 700 }}>{overview.sessions.withResponses}</div>
+                <div className="small">with responses</div>
+              </div>
+              <div>
+                <div style={{ fontSize: 24, fontWeight: 700 }}>{overview.sessions.completed}</div>
+                <div className="small">completed (all stimuli × conditions rated)</div>
+              </div>
+            </div>
+            <div className="small" style={{ marginTop: 8 }}>
+              Status: {overview.sessions.byStatus.in_progress} in progress · {overview.sessions.byStatus.completed} completed
+              with code · {overview.sessions.byStatus.screened_out} screened out · {overview.sessions.byStatus.timed_out} timed
+              out
+            </div>
+            <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 12 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headCell, textAlign: "left" }}>Day</th>
+                  <th style={headCell}>Started</th>
+                  <th style={headCell}>Completed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.sessionsByDay.slice(-14).map((d) => (
+                  <tr key={d.date}>
+                    <td style={firstCell}>{d.date}</td>
+                    <td style={cell}>{d.started}</td>
+                    <td style={cell}>{d.completed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="card">
+            <h2>Counterbalancing</h2>
+            <div className="small">Sessions per design row (should stay within one of each other)</div>
+            <div className="row" style={{ marginTop: 6 }}>
+              {overview.counterbalanceRows.map((n, row) => (
+                <span key={row}>
+                  <kbd>row {row}</kbd> {n}
+                </span>
+              ))}
+            </div>
+            <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 12 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headCell, textAlign: "left" }}>Condition</th>
+                  <th style={headCell}>1st</th>
+                  <th style={headCell}>2nd</th>
+                  {conditions.length > 2 && <th style={headCell}>3rd</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {conditions.map((c) => (
+                  <tr key={c}>
+                    <td style={firstCell}>{CONDITION_LABELS[c]}</td>
+                    {overview.conditionPositions[c].slice(0, conditions.length).map((n, i) => (
+                      <td key={i} style={cell}>
+                        {n}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      )}
+
+      {overview && (
+        <section className="card">
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <h2>Responses per stimulus</h2>
+            <div style={{ minWidth: 240 }}>
+              <select value={stimulusId} onChange={(e) => setStimulusId(e.target.value)}>
+                <option value="">All stimuli (ratings and listening below)</option>
+                {overview.stimuli
+                  .filter((s) => s.title)
+                  .map((s) => (
+                    <option key={s.stimulusKey} value={s.stimulusKey}>
+                      {s.title}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <table style={{ borderCollapse: "collapse", width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ ...headCell, textAlign: "left" }}>Stimulus</th>
+                <th style={headCell}>Assigned</th>
+                {conditions.map((c) => (
+                  <th key={c} style={headCell}>
+                    {CONDITION_LABELS[c]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {overview.stimuli.map((s) => (
+                <tr key={s.stimulusKey}>
+                  <td style={firstCell}>{s.title ?? s.stimulusKey}</td>
+                  <td style={cell}>{s.assigned}</td>
+                  {conditions.map((c) => (
+                    <td key={c} style={cell}>
+                      {s.responses[c]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {ratings && (
+        <section className="card">
+          <h2>Ratings per condition</h2>
+          <div className="small">1–7 Likert; distribution bars show counts for 1 … 7.</div>
+          {RATING_MEASURES.map((m) => (
+            <div key={m.key} style={{ marginTop: 12 }}>
+              <div style={{ fontWeight: 600 }}>{m.question}</div>
+              <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headCell, textAlign: "left" }}>Condition</th>
+                    <th style={headCell}>n</th>
+                    <th style={headCell}>Mean</th>
+                    <th style={headCell}>Median</th>
+                    <th style={headCell}>SD</th>
+                    <th style={headCell}>Distribution</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conditions.map((c) => (
+                    <tr key={c}>
+                      <td style={firstCell}>{CONDITION_LABELS[c]}</td>
+                      <DescriptivesCells d={ratings[c][m.key]} />
+                      <td style={cell}>
+                        <div style={{ display: "flex", justifyContent: "flex-end" }}>
+                          <Distribution counts={ratings[c][m.key].distribution} />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {listening && (
+        <section className="card">
+          <h2>Listening</h2>
+          <div className="small">Per rated condition, from playback telemetry. Seconds are wall-clock time spent playing.</div>
+          <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th style={{ ...headCell, textAlign: "left" }}>Condition</th>
+                <th style={headCell}>Rated</th>
+                <th style={headCell}>Played (n)</th>
+                <th style={headCell}>Mean s</th>
+                <th style={headCell}>Median s</th>
+                <th style={headCell}>SD s</th>
+                <th style={headCell}>Mean completion</th>
+                <th style={headCell}>Rated without playing</th>
+                <th style={headCell}>Rated below 90%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conditions.map((c) => (
+                <tr key={c}>
+                  <td style={firstCell}>{CONDITION_LABELS[c]}</td>
+                  <td style={cell}>{listening[c].rated}</td>
+                  <DescriptivesCells d={listening[c].listeningSeconds} digits={1} />
+                  <td style={cell}>
+                    {listening[c].completionRatio.mean == null ? "–" : `${Math.round(listening[c].completionRatio.mean * 100)}%`}
+                  </td>
+                  <td style={cell}>{listening[c].ratedWithoutPlayback}</td>
+                  <td style={cell}>{listening[c].ratedBelow90Percent}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {analysis && (
+        <section className="card">
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <h2>Within-subject tests</h2>
+            <div style={{ minWidth: 240 }}>
+              <select value={unit} onChange={(e) => setUnit(e.target.value as AnalysisUnit)}>
+                <option value="participant">Per participant (averaged over stimuli)</option>
+                <option value="trial">Per participant × stimulus</option>
+              </select>
+            </div>
+          </div>
+          <div className="small">
+            Friedman test over the study&apos;s conditions, then Wilcoxon signed-rank tests (Holm-corrected). Only
+            complete blocks (all conditions rated) are included. W = Kendall&apos;s W; r = |z| / √n; r<sub>rb</sub> = matched-pairs
+            rank-biserial correlation.
+          </div>
+          {analysis.map((m) => (
+            <div key={m.measure} style={{ marginTop: 12 }}>
+              <div style={{ fontWeight: 600 }}>{m.question}</div>
+              <div className="small" style={{ margin: "4px 0" }}>
+                Friedman χ²({m.friedman.df}) = {fmt(m.friedman.chiSquared)}, p = {fmtP(m.friedman.p)}, W ={" "}
+                {fmt(m.friedman.kendallW)}, n = {m.friedman.n} · mean ranks:{" "}
+                {conditions.map((c) => `${CONDITION_LABELS[c]} ${fmt(m.friedman.meanRanks[c] ?? null)}`).join(", ")}
+              </div>
+              <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headCell, textAlign: "left" }}>Comparison</th>
+                    <th style={headCell}>n</th>
+                    <th style={headCell}>Median diff.</th>
+                    <th style={headCell}>V</th>
+                    <th style={headCell}>z</th>
+                    <th style={headCell}>p</th>
+                    <th style={headCell}>p (Holm)</th>
+                    <th style={headCell}>r</th>
+                    <th style={headCell}>
+                      r<sub>rb</sub>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {m.pairwise.map((w) => (
+                    <tr key={`${w.a}-${w.b}`}>
+                      <td style={firstCell}>
+                        {CONDITION_LABELS[w.a]} vs {CONDITION_LABELS[w.b]}
+                      </td>
+                      <td style={cell}>{w.n}</td>
+                      <td style={cell}>{fmt(w.medianDifference)}</td>
+                      <td style={cell}>{fmt(w.V, 1)}</td>
+                      <td style={cell}>{fmt(w.z)}</td>
+                      <td style={cell}>
+                        {fmtP(w.p)}
+                        {w.exact ? " (exact)" : ""}
+                      </td>
+                      <td style={{ ...cell, fontWeight: w.pHolm != null && w.pHolm < 0.05 ? 700 : undefined }}>
+                        {fmtP(w.pHolm)}
+                      </td>
+                      <td style={cell}>{fmt(w.r)}</td>
+                      <td style={cell}>{fmt(w.rankBiserial)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {usage && (
+        <section className="card">
+          <h2>Provider usage</h2>
+          <div className="small">
+            Paid TTS and description calls (audio cache hits are free and not counted). Costs are estimates at the
+            configured prices. Limits: {usage.limits.perSession || "no"} calls per session and{" "}
+            {usage.limits.global || "no"} overall per {usage.limits.windowMs / 60_000} minutes.
+          </div>
+          <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th style={{ ...headCell, textAlign: "left" }}>Provider</th>
+                <th style={headCell}>Calls</th>
+                <th style={headCell}>Characters</th>
+                <th style={headCell}>Images</th>
+                <th style={headCell}>Tokens in / out</th>
+                <th style={headCell}>Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.byProvider.map((p) => (
+                <tr key={`${p.kind}-${p.provider}-${p.model}`}>
+                  <td style={firstCell}>
+                    {p.kind} · {p.provider}
+                    {p.model ? ` (${p.model})` : ""}
+                  </td>
+                  <td style={cell}>{p.calls}</td>
+                  <td style={cell}>{p.characters}</td>
+                  <td style={cell}>{p.imageInputs}</td>
+                  <td style={cell}>
+                    {p.inputTokens} / {p.outputTokens}
+                  </td>
+                  <td style={cell}>{fmtUsd(p.estimatedCostUsd)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td style={{ ...firstCell, fontWeight: 600 }}>Total</td>
+                <td style={cell}>{usage.totals.calls}</td>
+                <td style={cell}>{usage.totals.characters}</td>
+                <td style={cell}>{usage.totals.imageInputs}</td>
+                <td style={cell}>
+                  {usage.totals.inputTokens} / {usage.totals.outputTokens}
+                </td>
+                <td style={{ ...cell, fontWeight: 600 }}>{fmtUsd(usage.totals.estimatedCostUsd)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {usage.bySession.length > 0 && (
+            <>
+              <div className="small" style={{ marginTop: 12 }}>
+                Most expensive sessions
+              </div>
+              <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 4 }}>
+                <tbody>
+                  {usage.bySession.slice(0, 10).map((row) => (
+                    <tr key={row.sessionId ?? "none"}>
+                      <td style={firstCell}>{row.sessionId ? <kbd>{row.sessionId}</kbd> : "No session (packs)"}</td>
+                      <td style={cell}>{row.calls} calls</td>
+                      <td style={cell}>{fmtUsd(row.estimatedCostUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </section>
+      )}
+
+      <section className="card">
+        <h2>Export</h2>
+        <div className="row">
+          {["long", "responses", "sessions", "playback_metrics", "codebook"].map((table) => (
+            <a key={table} href={`/api/export?format=csv&table=${table}${studyId ? `&studyId=${encodeURIComponent(studyId)}` : ""}`}>
+              <button className="secondary">{table}.csv</button>
+            </a>
+          ))}
+        </div>
+      </section>
+    </main>
+  );
+}
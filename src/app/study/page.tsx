@@ -0,0 +1,516 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import { AudioPlayer } from "@/components/AudioPlayer";
+import { missingRequiredItems, QuestionnaireForm } from "@/components/QuestionnaireForm";
+import type {
+  AudioMode,
+  ConsentFormInfo,
+  ItemValue,
+  QuestionnaireInfo,
+  SessionStatus,
+  StimulusInfo,
+  StimulusPackInfo,
+  StudySummary,
+} from "@/lib/types";
+
+// Participant-facing study: consent -> background questions -> instructions -> for each assigned stimulus,
+// the artwork and its description, then every condition in the assigned order with its ratings -> completion.
+// Conditions are only ever called "Version A/B/C" (by position), so nothing here reveals which is which.
+// The study is the one named by ?study=<slug>, or the only active one; the server picks its stimuli.
+
+type Trial = { stimulus: StimulusInfo; pack: StimulusPackInfo };
+
+type EndedResponse = {
+  status: Exclude<SessionStatus, "in_progress">;
+  completionCode?: string | null;
+  redirectUrl?: string | null;
+};
+
+type Step =
+  | { kind: "consent" }
+  | { kind: "background" }
+  | { kind: "instructions" }
+  | { kind: "stimulus"; trial: number }
+  | { kind: "condition"; trial: number; position: number }
+  // Completed, screened out or timed out; the panel redirect (if configured) follows shortly.
+  | ({ kind: "ended" } & EndedResponse);
+
+const VERSION_LABELS = ["A", "B", "C"];
+
+export default function StudyPage() {
+  const [study, setStudy] = useState<StudySummary | null>(null);
+  // Stimuli with an approved pack, by id; the session's trials are built from its assignments.
+  const [catalog, setCatalog] = useState<Map<string, Trial> | null>(null);
+  const [trials, setTrials] = useState<Trial[]>([]);
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireInfo[]>([]);
+  const [background, setBackground] = useState<QuestionnaireInfo[]>([]);
+  const [consentForm, setConsentForm] = useState<ConsentFormInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [consented, setConsented] = useState(false);
+  const [step, setStep] = useState<Step>({ kind: "consent" });
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [orders, setOrders] = useState<Record<string, AudioMode[]>>({});
+  // Conditions already rated per stimulus; a resumed session carries on from the first unrated one.
+  const [answered, setAnswered] = useState<Record<string, AudioMode[]>>({});
+  const [answers, setAnswers] = useState<Record<string, ItemValue | undefined>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Query parameters the study was opened with (panel participant / study / session ids).
+  const entryRef = useRef<Record<string, string>>({});
+
+  // Only stimuli with an approved pack are used, so every participant hears the same frozen description and audio.
+  useEffect(() => {
+    entryRef.current = Object.fromEntries(new URLSearchParams(window.location.search));
+    const ref = entryRef.current.study;
+    (async () => {
+      const res = await fetch(`/api/study${ref ? `?study=${encodeURIComponent(ref)}` : ""}`);
+      if (res.status === 404) {
+        setLoadError("This study link is not valid. Please check the link you were given.");
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+      const { study }: { study: StudySummary } = await res.json();
+      const inStudy = `study=${encodeURIComponent(study.id)}`;
+
+      const [{ stimuli }, { packs }, { questionnaires }, session, { consentForm }] = await Promise.all([
+        fetch("/api/stimuli").then((res) => res.json() as Promise<{ stimuli: StimulusInfo[] }>),
+        fetch("/api/packs?status=approved").then((res) => res.json() as Promise<{ packs: StimulusPackInfo[] }>),
+        fetch(`/api/questionnaires?scope=condition&${inStudy}`).then(
+          (res) => res.json() as Promise<{ questionnaires: QuestionnaireInfo[] }>
+        ),
+        fetch(`/api/questionnaires?scope=session&${inStudy}`).then(
+          (res) => res.json() as Promise<{ questionnaires: QuestionnaireInfo[] }>
+        ),
+        fetch("/api/consent").then(async (res) => {
+          if (!res.ok) throw new Error(await res.text());
+          return (await res.json()) as { consentForm: ConsentFormInfo };
+        }),
+      ]);
+      // Packs come newest first; the first approved pack per stimulus is the one in use.
+      const packFor = new Map<string, StimulusPackInfo>();
+      for (const p of packs) if (!packFor.has(p.stimulusId)) packFor.set(p.stimulusId, p);
+      setCatalog(
+        new Map(stimuli.filter((st) => packFor.has(st.id)).map((st) => [st.id, { stimulus: st, pack: packFor.get(st.id)! }]))
+      );
+      setStudy(study);
+      setQuestionnaires(questionnaires);
+      setBackground(session.questionnaires);
+      setConsentForm(consentForm);
+    })().catch((e) => {
+      console.error(e);
+      setLoadError("The study could not be loaded. Please reload the page.");
+    });
+  }, []);
+
+  useEffect(() => {
+    if (step.kind !== "ended" || !step.redirectUrl) return;
+    const url = step.redirectUrl;
+    const timer = setTimeout(() => window.location.assign(url), 5000);
+    return () => clearTimeout(timer);
+  }, [step]);
+
+  // A 409 carrying a status means the session has ended (already taken part, timed out): show that instead.
+  async function endedFrom(res: Response) {
+    if (res.status !== 409) return false;
+    const data: Partial<EndedResponse> = await res.clone().json().catch(() => ({}));
+    if (!data.status) return false;
+    setStep({ kind: "ended", status: data.status, completionCode: data.completionCode, redirectUrl: data.redirectUrl });
+    return true;
+  }
+
+  async function declineConsent() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/study/start", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entry: entryRef.current, study: study?.id, consentDeclined: true }),
+      });
+      if (await endedFrom(res)) return;
+      if (!res.ok) throw new Error(await res.text());
+      const data: EndedResponse = await res.json();
+      setStep({ kind: "ended", status: "screened_out", redirectUrl: data.redirectUrl });
+    } catch (e) {
+      console.error(e);
+      setError("Something went wrong. You can close this page.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function finish() {
+    const res = await fetch("/api/study/finish", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, outcome: "completed" }),
+    });
+    if (await endedFrom(res)) return;
+    if (!res.ok) throw new Error(await res.text());
+    const data: EndedResponse = await res.json();
+    setStep({ kind: "ended", ...data });
+  }
+
+  // The session is created when consent is given; the server stores which consent version was accepted.
+  async function startSession() {
+    if (!study || !catalog || !consentForm) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/study/start", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entry: entryRef.current, study: study.id, consentFormId: consentForm.id }),
+      });
+      if (await endedFrom(res)) return;
+      if (res.status === 403) {
+        setLoadError("This study is not open at the moment. Thank you for your interest.");
+        return;
+      }
+      if (res.status === 409) {
+        // The consent text changed while the page was open: show the new version.
+        const data: { consentForm: ConsentFormInfo } = await res.json();
+        setConsentForm(data.consentForm);
+        setConsented(false);
+        setError("The consent information has been updated. Please read it again.");
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+      const data: {
+        sessionId: string;
+        assignments: Record<string, AudioMode[]>;
+        answered?: Record<string, AudioMode[]>;
+      } = await res.json();
+      // Every assigned stimulus must be rated before the session can finish, so one that lost its approved
+      // pack (or was deactivated) stops the study here rather than being skipped.
+      const keys = Object.keys(data.assignments);
+      if (keys.some((key) => !catalog.has(key))) {
+        setLoadError("One of the artworks in this study is not available at the moment. Please try again later.");
+        return;
+      }
+      setSessionId(data.sessionId);
+      setOrders(data.assignments);
+      setAnswered(data.answered ?? {});
+      // Trials follow the assignment order (a resumed session keeps the stimuli it was first given).
+      setTrials(keys.map((key) => catalog.get(key)!));
+      setStep(background.length ? { kind: "background" } : { kind: "instructions" });
+    } catch (e) {
+      console.error(e);
+      setError("Something went wrong while starting the study. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function submitBackground() {
+    const missing = background.flatMap((q) => missingRequiredItems(q, answers));
+    if (missing.length) {
+      setError(`Please answer: ${missing.map((item) => item.text).join(" · ")}`);
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/study/questionnaire", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, items: answeredItems() }),
+      });
+      if (await endedFrom(res)) return;
+      if (!res.ok) throw new Error(await res.text());
+      setAnswers({});
+      setStep({ kind: "instructions" });
+      window.scrollTo(0, 0);
+    } catch (e) {
+      console.error(e);
+      setError("Your answers could not be saved. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Position of the trial's first condition not rated yet; the order's length once all are.
+  function firstOpenPosition(trial: Trial) {
+    const order = orders[trial.stimulus.id];
+    const done = answered[trial.stimulus.id] ?? [];
+    const position = order.findIndex((c) => !done.includes(c));
+    return position < 0 ? order.length : position;
+  }
+
+  // Next step after `from` (a trial index): the first trial with a condition left to rate, else finishing.
+  async function continueFrom(from: number) {
+    const next = trials.findIndex((t, i) => i >= from && firstOpenPosition(t) < orders[t.stimulus.id].length);
+    if (next >= 0) setStep({ kind: "stimulus", trial: next });
+    else await finish();
+  }
+
+  async function start() {
+    setBusy(true);
+    setError(null);
+    try {
+      await continueFrom(0);
+    } catch (e) {
+      console.error(e);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function answeredItems() {
+    return Object.fromEntries(
+      Object.entries(answers).filter(([, v]) => v != null && !(typeof v === "string" && !v.trim()))
+    );
+  }
+
+  // Each version's ratings are submitted as soon as they are given, so partial sessions keep their data.
+  async function submitCondition(trial: Trial, condition: AudioMode, position: number) {
+    const missing = questionnaires.flatMap((q) => missingRequiredItems(q, answers));
+    if (missing.length) {
+      setError(`Please answer: ${missing.map((item) => item.text).join(" · ")}`);
+      return;
+    }
+
+    const order = orders[trial.stimulus.id];
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/study/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId,
+          stimulusKey: trial.stimulus.id,
+          conditionA: order[0],
+          conditionB: order[1],
+          conditionC: order[2],
+          descriptionId: trial.pack.description.descriptionId,
+          responses: [{ condition, items: answeredItems() }],
+        }),
+      });
+      if (await endedFrom(res)) return;
+      if (!res.ok) throw new Error(await res.text());
+
+      setAnswers({});
+      setAnswered((prev) => ({ ...prev, [trial.stimulus.id]: [...(prev[trial.stimulus.id] ?? []), condition] }));
+      const index = trials.indexOf(trial);
+      if (position + 1 < order.length) setStep({ kind: "condition", trial: index, position: position + 1 });
+      else await continueFrom(index + 1);
+      window.scrollTo(0, 0);
+    } catch (e) {
+      console.error(e);
+      setError("Your answers could not be saved. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function renderArtwork(trial: Trial, height: number) {
+    return (
+      <div
+        style={{
+          position: "relative",
+          width: "100%",
+          height,
+          borderRadius: 14,
+          overflow: "hidden",
+          border: "1px solid #e5e7eb",
+        }}
+      >
+        <Image src={trial.stimulus.filePath} alt={trial.stimulus.altText} fill style={{ objectFit: "contain" }} unoptimized />
+      </div>
+    );
+  }
+
+  function renderStep() {
+    if (loadError) return <div className="card">{loadError}</div>;
+    if (!study) return <div className="card">Loading…</div>;
+    if (study.status !== "active" && step.kind !== "ended") {
+      return <div className="card">The study is not open at the moment. Please check back later.</div>;
+    }
+    const versionLabels = VERSION_LABELS.slice(0, study.conditionCount);
+
+    switch (step.kind) {
+      case "consent":
+        if (!consentForm) return <div className="card">Loading…</div>;
+        return (
+          <div className="card" style={{ display: "grid", gap: 12 }}>
+            <h2>{consentForm.title}</h2>
+            {consentForm.body.split(/\n\s*\n/).map((paragraph, i) => (
+              <div key={i} style={{ whiteSpace: "pre-wrap" }}>
+                {paragraph}
+              </div>
+            ))}
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={consented} onChange={(e) => setConsented(e.target.checked)} />
+              I have read the information above and agree to take part.
+            </label>
+            {error && <div className="small">{error}</div>}
+            <div className="row">
+              <button disabled={!consented || busy} onClick={startSession}>
+                {busy ? "Starting…" : "Continue"}
+              </button>
+              <button className="secondary" disabled={busy} onClick={declineConsent}>
+                I do not want to take part
+              </button>
+            </div>
+            <div className="small">Consent form version {consentForm.version}</div>
+          </div>
+        );
+
+      case "background":
+        return (
+          <div className="card" style={{ display: "grid", gap: 12 }}>
+            {background.map((q) => (
+              <div key={q.id} style={{ display: "grid", gap: 10 }}>
+                <h2>{q.title}</h2>
+                <QuestionnaireForm
+                  questionnaire={q}
+                  values={answers}
+                  onChange={(itemId, v) => setAnswers((prev) => ({ ...prev, [itemId]: v }))}
+                />
+              </div>
+            ))}
+            {error && <div className="small">{error}</div>}
+            <div className="row">
+              <button disabled={busy} onClick={submitBackground}>
+                {busy ? "Saving…" : "Continue"}
+              </button>
+            </div>
+          </div>
+        );
+
+      case "instructions":
+        return (
+          <div className="card" style={{ display: "grid", gap: 12 }}>
+            <h2>Instructions</h2>
+            <ul style={{ margin: 0 }}>
+              <li>Please use headphones or speakers and make sure the sound is on.</li>
+              <li>For each artwork you will first see the image and read its description.</li>
+              <li>
+                You will then hear {versionLabels.length} versions of the spoken description, called Version{" "}
+                {versionLabels.slice(0, -1).join(", ")} and {versionLabels[versionLabels.length - 1]}. Listen to each version in full before
+                answering the questions about it.
+              </li>
+              <li>There are no right or wrong answers; we are interested in your impressions.</li>
+            </ul>
+            {error && <div className="small">{error}</div>}
+            <div className="row">
+              <button disabled={busy} onClick={start}>
+                Start
+              </button>
+            </div>
+          </div>
+        );
+
+      case "stimulus": {
+        const trial = trials[step.trial];
+        return (
+          <div className="card" style={{ display: "grid", gap: 12 }}>
+            <div className="small">
+              Artwork {step.trial + 1} of {trials.length}
+            </div>
+            <h2>{trial.stimulus.title}</h2>
+            {renderArtwork(trial, 360)}
+            <div style={{ whiteSpace: "pre-wrap" }}>{trial.pack.description.description}</div>
+            <div className="row">
+              <button
+                onClick={() => setStep({ kind: "condition", trial: step.trial, position: firstOpenPosition(trial) })}
+              >
+                Continue to the audio
+              </button>
+            </div>
+          </div>
+        );
+      }
+
+      case "condition": {
+        const trial = trials[step.trial];
+        const condition = orders[trial.stimulus.id][step.position];
+        const label = `Version ${VERSION_LABELS[step.position]}`;
+        return (
+          <div style={{ display: "grid", gap: 12 }}>
+            <div className="small">
+              Artwork {step.trial + 1} of {trials.length} · {label} of {versionLabels.length}
+            </div>
+            {renderArtwork(trial, 240)}
+            <AudioPlayer
+              // Remount per version so no playback state carries over.
+              key={`${trial.stimulus.id}-${condition}`}
+              title={label}
+              descriptionText={trial.pack.description.description}
+              mode={condition}
+              frozenAudioUrl={condition === "tts" ? undefined : trial.pack.audioUrls[condition]}
+              telemetry={sessionId ? { sessionId, stimulusKey: trial.stimulus.id } : undefined}
+              blinded
+              footer={
+                <div style={{ display: "grid", gap: 10 }}>
+                  {questionnaires.map((q) => (
+                    <QuestionnaireForm
+                      key={q.id}
+                      questionnaire={q}
+                      namePrefix={`${trial.stimulus.id}-${step.position}-${q.key}`}
+                      values={answers}
+                      onChange={(itemId, v) => setAnswers((prev) => ({ ...prev, [itemId]: v }))}
+                    />
+                  ))}
+                  {error && <div className="small">{error}</div>}
+                  <div className="row">
+                    <button disabled={busy} onClick={() => submitCondition(trial, condition, step.position)}>
+                      {busy ? "Saving…" : "Continue"}
+                    </button>
+                  </div>
+                </div>
+              }
+            />
+          </div>
+        );
+      }
+
+      case "ended":
+        return (
+          <div className="card" style={{ display: "grid", gap: 12 }}>
+            {step.status === "completed" ? (
+              <>
+                <h2>Thank you!</h2>
+                <div>Your answers have been saved.</div>
+                {step.completionCode && (
+                  <div>
+                    Your completion code: <kbd style={{ fontSize: 16 }}>{step.completionCode}</kbd>
+                  </div>
+                )}
+              </>
+            ) : step.status === "timed_out" ? (
+              <>
+                <h2>Time is up</h2>
+                <div>This study session has expired. Thank you for your time.</div>
+              </>
+            ) : (
+              <>
+                <h2>Thank you</h2>
+                <div>You will not take part in this study. Thank you for your interest.</div>
+              </>
+            )}
+            {step.redirectUrl ? (
+              <div className="small">
+                You will be returned automatically in a few seconds, or <a href={step.redirectUrl}>continue now</a>.
+              </div>
+            ) : (
+              <div className="small">You can now close this page.</div>
+            )}
+          </div>
+        );
+    }
+  }
+
+  return (
+    <main style={{ display: "flex", flexDirection: "column", gap: 16, maxWidth: 760, margin: "0 auto" }}>
+      <h1>Art Audio Study</h1>
+      {renderStep()}
+    </main>
+  );
+}
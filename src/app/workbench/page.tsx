@@ -0,0 +1,1182 @@
+"use client";
+
+import Image from "next/image";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { AudioPlayer } from "@/components/AudioPlayer";
+import { missingRequiredItems, QuestionnaireForm } from "@/components/QuestionnaireForm";
+import { CONDITIONS } from "@/lib/counterbalance";
+import {
+  buildSsmlFromTextAndMarks,
+  diffText,
+  EMPTY_MARKS,
+  flattenSpans,
+  insertBreak,
+  insertSpan,
+  lineAndColumn,
+  parseSsml,
+  remapMarks,
+  SsmlSyntaxError,
+  STYLE_DEGREE_MAX,
+  STYLE_DEGREE_MIN,
+  type ExpressAsRole,
+  type SsmlIssue,
+  type MarkTree,
+  type SpanMark,
+  type SpanNode,
+} from "@/lib/ssml";
+import { AZURE_HD_VOICES, expressAsSupport, type AzureHdVoice } from "@/lib/tts/azureVoices";
+import type {
+  AudioMode,
+  ConsentFormInfo,
+  DescribeResponse,
+  ItemValue,
+  QuestionnaireInfo,
+  StimulusInfo,
+  StimulusPackInfo,
+  StudySummary,
+} from "@/lib/types";
+
+// Questionnaire answers for one condition, keyed by item id.
+type ConditionAnswers = Record<string, ItemValue | undefined>;
+
+const EMPTY_ANSWERS: Record<AudioMode, ConditionAnswers> = {
+  tts: {},
+  emotion: {},
+  emotion_music: {},
+};
+
+// Condition orders are also assigned for an uploaded image, under this key.
+const UPLOAD_STIMULUS_KEY = "upload";
+
+// Highlight colours by intent; the underline shows where each layer ends when spans are nested.
+function highlightFor(m: SpanMark) {
+  if (m.kind === "emphasis") return { background: "#FFF3BF", line: "#F59F00" };
+  if (m.kind === "express-as") return { background: "#E5DBFF", line: "#7048E8" };
+  if (m.pitch) return { background: "#D0EBFF", line: "#1C7ED6" };
+  if (m.rate) return { background: "#D3F9D8", line: "#37B24D" };
+  if (m.volume) return { background: "#FFE3E3", line: "#F03E3E" };
+  return { background: "#F1F3F5", line: "#868E96" };
+}
+
+function labelFor(m: SpanMark) {
+  if (m.kind === "emphasis") return `emphasis ${m.level}`;
+  if (m.kind === "express-as") {
+    return [`style ${m.style}`, m.styledegree != null && `×${m.styledegree}`, m.role].filter(Boolean).join(" ");
+  }
+  const tags: string[] = [];
+  if (m.pitch) tags.push(`pitch ${m.pitch}`);
+  if (m.rate) tags.push(`rate ${m.rate}`);
+  if (m.volume) tags.push(`vol ${m.volume}`);
+  return tags.join(", ") || "prosody";
+}
+
+// Layers below a node (itself included); outer layers get more bottom padding so every underline stays visible.
+function layerDepth(node: SpanNode): number {
+  return 1 + Math.max(0, ...node.children.map(layerDepth));
+}
+
+function renderHighlightedText(text: string, marks: MarkTree) {
+  if (!text) return null;
+
+  function renderRange(nodes: SpanNode[], from: number, to: number, path: string[]): React.ReactNode[] {
+    const parts: React.ReactNode[] = [];
+    let cursor = from;
+    for (const node of nodes) {
+      if (cursor < node.start) parts.push(<span key={`t-${cursor}`}>{text.slice(cursor, node.start)}</span>);
+      const { background, line } = highlightFor(node);
+      const labels = [...path, labelFor(node)];
+      parts.push(
+        <span
+          key={`m-${node.kind}-${node.start}-${node.end}`}
+          // Hover shows every setting that applies here, outermost first.
+          title={labels.join(" › ")}
+          style={{
+            background,
+            borderBottom: `2px solid ${line}`,
+            borderRadius: 4,
+            paddingBottom: (layerDepth(node) - 1) * 3,
+            boxDecorationBreak: "clone",
+            WebkitBoxDecorationBreak: "clone",
+          }}
+        >
+          {renderRange(node.children, node.start, node.end, labels)}
+        </span>
+      );
+      cursor = node.end;
+    }
+    if (cursor < to) parts.push(<span key={`t-${cursor}`}>{text.slice(cursor, to)}</span>);
+    return parts;
+  }
+
+  return <span style={{ whiteSpace: "pre-wrap" }}>{renderRange(marks.spans, 0, text.length, [])}</span>;
+}
+
+// The SSML source with the start tag of each element the server rejected highlighted (a single character for
+// issues without an element); hovering a highlight shows its messages.
+function renderSsmlWithIssues(ssml: string, issues: SsmlIssue[]) {
+  const ranges: { start: number; end: number; messages: string[] }[] = [];
+  for (const issue of [...issues].sort((a, b) => a.offset - b.offset)) {
+    const tagEnd = ssml.indexOf(">", issue.offset);
+    const end = issue.element && tagEnd >= 0 ? tagEnd + 1 : Math.min(issue.offset + 1, ssml.length);
+    const last = ranges[ranges.length - 1];
+    if (last && issue.offset < last.end) {
+      last.end = Math.max(last.end, end);
+      last.messages.push(issue.message);
+    } else {
+      ranges.push({ start: issue.offset, end, messages: [issue.message] });
+    }
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const r of ranges) {
+    if (cursor < r.start) parts.push(<span key={`t-${cursor}`}>{ssml.slice(cursor, r.start)}</span>);
+    parts.push(
+      <mark key={`i-${r.start}`} title={r.messages.join("\n")} style={{ background: "#FFE3E3", color: "#b91c1c" }}>
+        {ssml.slice(r.start, r.end) || " "}
+      </mark>
+    );
+    cursor = Math.max(cursor, r.end);
+  }
+  if (cursor < ssml.length) parts.push(<span key={`t-${cursor}`}>{ssml.slice(cursor)}</span>);
+  return parts;
+}
+
+export default function WorkbenchPage() {
+  const [participantId, setParticipantId] = useState("");
+  // In-lab sessions: the researcher confirms the participant accepted the active consent form.
+  const [consentForm, setConsentForm] = useState<ConsentFormInfo | null>(null);
+  const [consentGiven, setConsentGiven] = useState(false);
+  // Study the session belongs to: ?study=<slug> (drafts can be piloted here), else the only active one.
+  const [study, setStudy] = useState<StudySummary | null>(null);
+  const [studyError, setStudyError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [conditionOrders, setConditionOrders] = useState<Record<string, AudioMode[]>>({});
+
+  // Image selection
+  const [stimuli, setStimuli] = useState<StimulusInfo[]>([]);
+  const [stimuliError, setStimuliError] = useState<string | null>(null);
+  const [selectedStimulusId, setSelectedStimulusId] = useState<string | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [uploadedImageId, setUploadedImageId] = useState<string | null>(null); // set once imageFile is stored server-side
+  const [uploadPreviewUrl, setUploadPreviewUrl] = useState<string | null>(null);
+
+  // Describe
+  const [describeLoading, setDescribeLoading] = useState(false);
+  const [describeOut, setDescribeOut] = useState<DescribeResponse | null>(null);
+  // Rate limit message from /api/describe (HTTP 429); the current description stays in place.
+  const [describeLimited, setDescribeLimited] = useState<string | null>(null);
+
+  // Frozen stimulus pack for the selected catalog stimulus
+  const [approvedPack, setApprovedPack] = useState<StimulusPackInfo | null>(null);
+  const [draftPack, setDraftPack] = useState<StimulusPackInfo | null>(null);
+  const [useFrozenPack, setUseFrozenPack] = useState(true);
+  const [packBusy, setPackBusy] = useState(false);
+
+  // Condition 2 (Azure SSML)
+  const [azureVoiceName, setAzureVoiceName] = useState<AzureHdVoice>(AZURE_HD_VOICES[0].value);
+  const [ssmlBaseText, setSsmlBaseText] = useState(""); // plain text only
+  const [ssmlMarks, setSsmlMarks] = useState<MarkTree>(EMPTY_MARKS);
+  const [showAdvancedSsml, setShowAdvancedSsml] = useState(false);
+  // SSML import: a pasted or saved document is parsed back into editor text and marks.
+  const [showSsmlImport, setShowSsmlImport] = useState(false);
+  const [ssmlImportText, setSsmlImportText] = useState("");
+  const [ssmlImportIssues, setSsmlImportIssues] = useState<SsmlIssue[] | null>(null);
+  const [ssmlImportError, setSsmlImportError] = useState<string | null>(null);
+  // Speaking style (mstts:express-as) applied by "Apply style"; only the chosen voice's styles and roles are offered.
+  const [expressStyle, setExpressStyle] = useState("");
+  const [expressDegree, setExpressDegree] = useState("1");
+  const [expressRole, setExpressRole] = useState<ExpressAsRole | "">("");
+  // SSML the server rejected (generation or freezing a pack), with its issues; shown while the SSML is unchanged.
+  const [ssmlServerIssues, setSsmlServerIssues] = useState<{ ssml: string; issues: SsmlIssue[] } | null>(null);
+
+  // Condition 3 (OpenAI emotion+music) — keep if you still use it
+  const [emotionPreset, setEmotionPreset] = useState<"neutral" | "warm" | "excited" | "somber" | "mysterious">("warm");
+
+  // Responses: the active per-condition questionnaires, answered once per condition
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireInfo[]>([]);
+  const [answers, setAnswers] = useState<Record<AudioMode, ConditionAnswers>>(EMPTY_ANSWERS);
+
+  // With an approved pack, everyone hears the frozen description and audio instead of fresh generations.
+  const activePack = !imageFile && useFrozenPack ? approvedPack : null;
+  const shownDescription = activePack?.description ?? describeOut;
+  const descriptionText = shownDescription?.description ?? "";
+
+  useEffect(() => {
+    fetch("/api/stimuli")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+        const data: { stimuli: StimulusInfo[] } = await res.json();
+        setStimuli(data.stimuli);
+        setSelectedStimulusId((prev) => prev ?? data.stimuli[0]?.id ?? null);
+      })
+      .catch((e) => {
+        console.error(e);
+        setStimuliError(e?.message ?? "Failed to load stimuli");
+      });
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/consent")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+        const data: { consentForm: ConsentFormInfo } = await res.json();
+        setConsentForm(data.consentForm);
+      })
+      .catch((e) => console.error(e));
+  }, []);
+
+  useEffect(() => {
+    const ref = new URLSearchParams(window.location.search).get("study");
+    fetch(`/api/study${ref ? `?study=${encodeURIComponent(ref)}` : ""}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.json().catch(() => null))?.error ?? res.statusText);
+        const data: { study: StudySummary } = await res.json();
+        setStudy(data.study);
+      })
+      .catch((e) => setStudyError(`${e?.message ?? "Failed to load the study"} (open /workbench?study=<slug>)`));
+  }, []);
+
+  useEffect(() => {
+    if (!study) return;
+    fetch(`/api/questionnaires?scope=condition&study=${encodeURIComponent(study.id)}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+        const data: { questionnaires: QuestionnaireInfo[] } = await res.json();
+        setQuestionnaires(data.questionnaires);
+      })
+      .catch((e) => console.error(e));
+  }, [study]);
+
+  useEffect(() => {
+    setApprovedPack(null);
+    setDraftPack(null);
+    if (!selectedStimulusId) return;
+
+    fetch(`/api/packs?stimulusId=${encodeURIComponent(selectedStimulusId)}&status=approved`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+        const data: { packs: StimulusPackInfo[] } = await res.json();
+        setApprovedPack(data.packs[0] ?? null);
+      })
+      .catch((e) => console.error(e));
+  }, [selectedStimulusId]);
+
+  const selectedStimulus = useMemo(() => {
+    return stimuli.find((x) => x.id === selectedStimulusId) ?? null;
+  }, [stimuli, selectedStimulusId]);
+
+  const effectivePreview = useMemo(() => {
+    if (uploadPreviewUrl) return uploadPreviewUrl;
+    if (!imageFile && selectedStimulus) return selectedStimulus.filePath;
+    return null;
+  }, [uploadPreviewUrl, imageFile, selectedStimulus]);
+
+  const activeStimulusKey = imageFile ? UPLOAD_STIMULUS_KEY : selectedStimulusId;
+
+  // Server-assigned (counterbalanced) order; the default order is only shown before a session exists.
+  const activeOrder = (activeStimulusKey && conditionOrders[activeStimulusKey]) || CONDITIONS;
+
+  const ssmlTextareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  async function startSession() {
+    if (!study) throw new Error(studyError ?? "The study is still loading.");
+    if (!consentForm || !consentGiven) throw new Error("Confirm the participant's consent before starting a session.");
+    const res = await fetch("/api/study/start", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        study: study.id,
+        consentFormId: consentForm.id,
+        participantId: participantId.trim() || undefined,
+        stimulusKeys: [...stimuli.map((st) => st.id), UPLOAD_STIMULUS_KEY],
+      }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json();
+    setSessionId(data.sessionId);
+    setConditionOrders(data.assignments ?? {});
+    return data.sessionId as string;
+  }
+
+  async function uploadImage(file: File, forSessionId: string) {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("sessionId", forSessionId);
+    const res = await fetch("/api/images", { method: "POST", body: form });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json();
+    setUploadedImageId(data.image.id);
+    return data.image.id as string;
+  }
+
+  async function generateDescription() {
+    setDescribeLoading(true);
+    setDescribeLimited(null);
+
+    try {
+      // Starting the session also sets the cookie /api/describe records and rate limits the call under.
+      const sid = sessionId ?? (await startSession());
+
+      let image: { imageId: string } | { stimulusId: string } | null = null;
+
+      if (imageFile) {
+        // Uploads are stored once per file; later descriptions reuse the stored image id.
+        image = { imageId: uploadedImageId ?? (await uploadImage(imageFile, sid)) };
+      } else if (selectedStimulus) {
+        image = { stimulusId: selectedStimulus.id };
+      }
+
+      if (!image) {
+        alert("Please select a stimulus image or upload an image.");
+        return;
+      }
+
+      const res = await fetch("/api/describe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...image, accessibilityFocus: true }),
+      });
+      if (res.status === 429) {
+        setDescribeLimited((await res.json().catch(() => null))?.error ?? "Too many descriptions right now.");
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+
+      const data: DescribeResponse = await res.json();
+      setDescribeOut(data);
+
+      // Auto-fill the plain-text SSML editor only if it is empty.
+      setSsmlBaseText((prev) => (prev.trim() ? prev : data.description));
+      setSsmlMarks(EMPTY_MARKS); // reset formatting for a new description
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.message ?? "Failed to generate description");
+    } finally {
+      setDescribeLoading(false);
+    }
+  }
+
+  function getSelectionRange() {
+    const el = ssmlTextareaRef.current;
+    if (!el) return null;
+    const start = el.selectionStart ?? 0;
+    const end = el.selectionEnd ?? 0;
+    if (start === end) return null;
+    return { start, end };
+  }
+
+  // Overlapping spans are nested automatically (see src/lib/ssml/marks.ts).
+  function addSpanMark(mark: SpanMark) {
+    setSsmlMarks((prev) => insertSpan(prev, mark));
+  }
+
+  function addBreak(ms: number) {
+    const el = ssmlTextareaRef.current;
+    if (!el) return;
+    const at = el.selectionStart ?? 0;
+    setSsmlMarks((prev) => insertBreak(prev, { kind: "break", at, timeMs: ms }));
+  }
+
+  function importSsml() {
+    setSsmlImportIssues(null);
+    setSsmlImportError(null);
+    try {
+      const parsed = parseSsml(ssmlImportText);
+      const issues = [...parsed.issues];
+      const voice = AZURE_HD_VOICES.find((v) => v.value === parsed.voice?.name);
+      if (voice) setAzureVoiceName(voice.value);
+      else if (parsed.voice) {
+        issues.push({
+          element: "voice",
+          offset: parsed.voice.offset,
+          message: `Voice "${parsed.voice.name}" is not in the voice list; keeping ${azureVoiceName}.`,
+        });
+      }
+      setSsmlBaseText(parsed.text);
+      setSsmlMarks(parsed.marks);
+      setSsmlImportIssues(issues);
+    } catch (e: any) {
+      if (!(e instanceof SsmlSyntaxError)) throw e;
+      const { line, column } = lineAndColumn(ssmlImportText, e.offset);
+      setSsmlImportError(`Line ${line}, column ${column}: ${e.message}`);
+    }
+  }
+
+  async function submit() {
+    if (!sessionId || !activeStimulusKey || !conditionOrders[activeStimulusKey]) {
+      alert("No session. Generate a description first.");
+      return;
+    }
+    const missing = activeOrder.flatMap((condition) =>
+      questionnaires.flatMap((q) => missingRequiredItems(q, answers[condition]).map((item) => `${condition}: ${item.text}`))
+    );
+    if (missing.length) {
+      alert(`Please answer:\n${missing.join("\n")}`);
+      return;
+    }
+    const [conditionA, conditionB, conditionC] = conditionOrders[activeStimulusKey];
+    const res = await fetch("/api/study/submit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sessionId,
+        stimulusKey: activeStimulusKey,
+        conditionA,
+        conditionB,
+        conditionC,
+        descriptionId: shownDescription?.descriptionId,
+        responses: activeOrder.map((condition) => ({
+          condition,
+          items: Object.fromEntries(
+            Object.entries(answers[condition]).filter(
+              ([, v]) => v != null && !(typeof v === "string" && !v.trim())
+            )
+          ),
+        })),
+      }),
+    });
+    if (!res.ok) {
+      alert(await res.text());
+      return;
+    }
+    alert("Submitted. Thank you!");
+    setAnswers(EMPTY_ANSWERS);
+  }
+
+  async function freezePack() {
+    if (!selectedStimulus || !describeOut) return;
+    setPackBusy(true);
+    try {
+      const res = await fetch("/api/packs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          stimulusId: selectedStimulus.id,
+          descriptionId: describeOut.descriptionId,
+          ssml: ssmlOverrideForSection2,
+          azureVoiceName,
+          emotionPreset,
+        }),
+      });
+      if (res.status === 400 && ssmlOverrideForSection2) {
+        const body = await res.clone().json().catch(() => null);
+        if (Array.isArray(body?.issues)) {
+          setSsmlServerIssues({ ssml: ssmlOverrideForSection2, issues: body.issues });
+          return;
+        }
+      }
+      if (!res.ok) throw new Error(await res.text());
+      const data: { pack: StimulusPackInfo } = await res.json();
+      setDraftPack(data.pack);
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.message ?? "Failed to freeze pack");
+    } finally {
+      setPackBusy(false);
+    }
+  }
+
+  async function approveDraftPack() {
+    if (!draftPack) return;
+    setPackBusy(true);
+    try {
+      const res = await fetch(`/api/packs/${draftPack.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "approved" }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const data: { pack: StimulusPackInfo } = await res.json();
+      setApprovedPack(data.pack);
+      setDraftPack(null);
+      setUseFrozenPack(true);
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.message ?? "Failed to approve pack");
+    } finally {
+      setPackBusy(false);
+    }
+  }
+
+  function updateAnswer(mode: AudioMode, itemId: string, value: ItemValue) {
+    setAnswers((prev) => ({ ...prev, [mode]: { ...prev[mode], [itemId]: value } }));
+  }
+
+  const voiceSupport = expressAsSupport(azureVoiceName) ?? { styles: [], roles: [] };
+  // Falls back to the voice's first style when the voice changes to one without the chosen style.
+  const styleChoice = voiceSupport.styles.includes(expressStyle) ? expressStyle : (voiceSupport.styles[0] ?? "");
+  const roleChoice = expressRole && voiceSupport.roles.includes(expressRole) ? expressRole : undefined;
+  // Styles marked for a previous voice; the server rejects them for this one.
+  const unsupportedStyles = [
+    ...new Set(
+      flattenSpans(ssmlMarks.spans).flatMap((m) =>
+        m.kind === "express-as" && !voiceSupport.styles.includes(m.style) ? [m.style] : []
+      )
+    ),
+  ];
+
+  const ssmlOverrideForSection2 = useMemo(() => {
+    // Not trimmed: mark offsets index the editor text as typed.
+    const base = ssmlBaseText.trim() ? ssmlBaseText : descriptionText;
+    if (!base.trim()) return undefined;
+
+    return buildSsmlFromTextAndMarks({
+      text: base,
+      voiceName: azureVoiceName,
+      lang: "en-US",
+      marks: ssmlMarks,
+    });
+  }, [ssmlBaseText, descriptionText, azureVoiceName, ssmlMarks]);
+
+  function renderResponsePanel(mode: AudioMode) {
+    return (
+      <div style={{ display: "grid", gridTemplateColumns: "1fr", gap: 10 }}>
+        {questionnaires.map((q) => (
+          <QuestionnaireForm
+            key={q.id}
+            questionnaire={q}
+            namePrefix={`${mode}-${q.key}`}
+            values={answers[mode]}
+            onChange={(itemId, v) => updateAnswer(mode, itemId, v)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  function renderConditionCard(mode: AudioMode, index: number) {
+    const n = index + 1;
+    const telemetry = sessionId && activeStimulusKey ? { sessionId, stimulusKey: activeStimulusKey } : undefined;
+
+    if (mode === "tts") {
+      return (
+        <AudioPlayer
+          key={mode}
+          title={`${n}) Baseline system TTS`}
+          descriptionText={descriptionText}
+          mode="tts"
+          footer={renderResponsePanel(mode)}
+          telemetry={telemetry}
+        />
+      );
+    }
+
+    if (mode === "emotion") {
+      return (
+        <AudioPlayer
+          key={mode}
+          title={`${n}) Emotional Intonation (Azure SSML)`}
+          descriptionText={descriptionText}
+          mode="emotion"
+          footer={renderResponsePanel(mode)}
+          telemetry={telemetry}
+          useAzureForEmotion={true}
+          frozenAudioUrl={activePack?.audioUrls.emotion}
+          ssmlOverride={ssmlOverrideForSection2}
+          azureVoiceName={azureVoiceName}
+          onSsmlIssues={(issues) => setSsmlServerIssues({ ssml: ssmlOverrideForSection2 ?? "", issues })}
+          headerExtra={
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ display: "grid", gap: 6 }}>
+                <label>Azure HD voice</label>
+                <select value={azureVoiceName} onChange={(e) => setAzureVoiceName(e.target.value as AzureHdVoice)}>
+                  {AZURE_HD_VOICES.map((v) => (
+                    <option key={v.value} value={v.value}>
+                      {v.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="small">
+                  This voice selection is applied immediately to the generated SSML used by Condition 2.
+                </div>
+              </div>
+
+              <div style={{ display: "grid", gap: 6 }}>
+                <div className="row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+                  <label>Intonation editor (plain text)</label>
+
+                  <button
+                    type="button"
+                    className="secondary"
+                    disabled={!descriptionText.trim()}
+                    onClick={() => {
+                      setSsmlBaseText(descriptionText);
+                      setSsmlMarks(EMPTY_MARKS);
+                      // Optional: focus the textarea after reset
+                      setTimeout(() => ssmlTextareaRef.current?.focus(), 0);
+                    }}
+                  >
+                    Fill from description (reset)
+                  </button>
+                </div>
+
+                <textarea
+                  ref={ssmlTextareaRef}
+                  rows={6}
+                  value={ssmlBaseText}
+                  onChange={(e) => {
+                    // Move the marks with the text; only formatting on deleted text is lost.
+                    const edit = diffText(ssmlBaseText, e.target.value, e.target.selectionEnd);
+                    setSsmlBaseText(e.target.value);
+                    if (edit) setSsmlMarks((prev) => remapMarks(prev, edit));
+                  }}
+                  placeholder="Click 'Generate description' to populate this box, then select words and apply edits below."
+                />
+
+                <div className="small">
+                  Select words, then click an edit button. Formatting follows the text as you edit it; formatting on
+                  deleted text is removed.
+                </div>
+
+                <div className="small">
+                  Legend: <span style={{ background: "#D0EBFF", padding: "0 4px", borderRadius: 6 }}>pitch</span>{" "}
+                  <span style={{ background: "#D3F9D8", padding: "0 4px", borderRadius: 6 }}>rate</span>{" "}
+                  <span style={{ background: "#FFE3E3", padding: "0 4px", borderRadius: 6 }}>volume</span>{" "}
+                  <span style={{ background: "#FFF3BF", padding: "0 4px", borderRadius: 6 }}>emphasis</span>{" "}
+                  <span style={{ background: "#E5DBFF", padding: "0 4px", borderRadius: 6 }}>speaking style</span>
+                </div>
+
+              </div>
+
+
+              <div className="row" style={{ flexWrap: "wrap", gap: 8 }}>
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    const r = getSelectionRange();
+                    if (!r) return alert("Select some text first.");
+                    addSpanMark({ kind: "emphasis", start: r.start, end: r.end, level: "moderate" });
+                  }}
+                >
+                  Emphasis
+                </button>
+
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    const r = getSelectionRange();
+                    if (!r) return alert("Select some text first.");
+                    addSpanMark({ kind: "prosody", start: r.start, end: r.end, pitch: "+20%" });
+                  }}
+                >
+                  Pitch +20%
+                </button>
+
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    const r = getSelectionRange();
+                    if (!r) return alert("Select some text first.");
+                    addSpanMark({ kind: "prosody", start: r.start, end: r.end, pitch: "-20%" });
+                  }}
+                >
+                  Pitch −20%
+                </button>
+
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    const r = getSelectionRange();
+                    if (!r) return alert("Select some text first.");
+                    addSpanMark({ kind: "prosody", start: r.start, end: r.end, rate: "+15%" });
+                  }}
+                >
+                  Rate +15%
+                </button>
+
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    const r = getSelectionRange();
+                    if (!r) return alert("Select some text first.");
+                    addSpanMark({ kind: "prosody", start: r.start, end: r.end, rate: "-15%" });
+                  }}
+                >
+                  Rate −15%
+                </button>
+
+                <button type="button" className="secondary" onClick={() => addBreak(200)}>
+                  Pause 200ms
+                </button>
+
+                <button type="button" className="secondary" onClick={() => setSsmlMarks(EMPTY_MARKS)}>
+                  Clear formatting
+                </button>
+
+                <button type="button" className="secondary" onClick={() => setShowAdvancedSsml((v) => !v)}>
+                  {showAdvancedSsml ? "Hide SSML" : "Show SSML"}
+                </button>
+              </div>
+
+              {voiceSupport.styles.length > 0 ? (
+                <div className="row" style={{ flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+                  <label>Speaking style</label>
+                  <select value={styleChoice} onChange={(e) => setExpressStyle(e.target.value)}>
+                    {voiceSupport.styles.map((style) => (
+                      <option key={style} value={style}>
+                        {style}
+                      </option>
+                    ))}
+                  </select>
+                  <label>Degree</label>
+                  <input
+                    type="number"
+                    min={STYLE_DEGREE_MIN}
+                    max={STYLE_DEGREE_MAX}
+                    step={0.1}
+                    value={expressDegree}
+                    onChange={(e) => setExpressDegree(e.target.value)}
+                    style={{ width: 70 }}
+                  />
+                  {voiceSupport.roles.length > 0 && (
+                    <>
+                      <label>Role</label>
+                      <select value={roleChoice ?? ""} onChange={(e) => setExpressRole(e.target.value as ExpressAsRole | "")}>
+                        <option value="">(none)</option>
+                        {voiceSupport.roles.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => {
+                      const r = getSelectionRange();
+                      if (!r) return alert("Select some text first.");
+                      const degree = Number(expressDegree);
+                      if (!(degree >= STYLE_DEGREE_MIN && degree <= STYLE_DEGREE_MAX)) {
+                        return alert(`Degree must be between ${STYLE_DEGREE_MIN} and ${STYLE_DEGREE_MAX}.`);
+                      }
+                      addSpanMark({
+                        kind: "express-as",
+                        start: r.start,
+                        end: r.end,
+                        style: styleChoice,
+                        // 1 is Azure's default intensity.
+                        styledegree: degree === 1 ? undefined : degree,
+                        role: roleChoice,
+                      });
+                    }}
+                  >
+                    Apply style
+                  </button>
+                </div>
+              ) : (
+                <div className="small">This voice has no speaking styles.</div>
+              )}
+              <div className="small">
+                A style replaces any other style on the same words; pitch, rate and emphasis stay inside it.
+              </div>
+              {unsupportedStyles.length > 0 && (
+                <div className="small" style={{ color: "#b91c1c" }}>
+                  This voice does not support {unsupportedStyles.join(", ")}; pick another voice or clear the formatting.
+                </div>
+              )}
+
+              <div className="row" style={{ flexWrap: "wrap", gap: 8 }}>
+                <button type="button" className="secondary" onClick={() => setShowSsmlImport((v) => !v)}>
+                  {showSsmlImport ? "Hide SSML import" : "Import SSML"}
+                </button>
+              </div>
+
+              {showSsmlImport && (
+                <div style={{ display: "grid", gap: 6 }}>
+                  <label>SSML to import</label>
+                  <textarea
+                    rows={8}
+                    value={ssmlImportText}
+                    onChange={(e) => setSsmlImportText(e.target.value)}
+                    placeholder="Paste an SSML document (<speak>…</speak>)."
+                  />
+                  <div className="row" style={{ gap: 8 }}>
+                    <button type="button" disabled={!ssmlImportText.trim()} onClick={importSsml}>
+                      Import into editor
+                    </button>
+                    {approvedPack && (
+                      <button type="button" className="secondary" onClick={() => setSsmlImportText(approvedPack.ssml)}>
+                        Load approved pack SSML
+                      </button>
+                    )}
+                  </div>
+                  <div className="small">Replaces the editor text and formatting.</div>
+                  {ssmlImportError && (
+                    <div className="small" style={{ color: "#b91c1c" }}>
+                      {ssmlImportError}
+                    </div>
+                  )}
+                  {ssmlImportIssues && (
+                    <div className="small">
+                      {ssmlImportIssues.length === 0 ? (
+                        "Imported without changes."
+                      ) : (
+                        <>
+                          Imported; not everything could be kept:
+                          <ul style={{ margin: "4px 0", paddingLeft: 18 }}>
+                            {ssmlImportIssues.map((issue, i) => {
+                              const { line, column } = lineAndColumn(ssmlImportText, issue.offset);
+                              return (
+                                <li key={i}>
+                                  {issue.element && <kbd>&lt;{issue.element}&gt;</kbd>} line {line}, column {column}:{" "}
+                                  {issue.message}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {ssmlServerIssues && ssmlServerIssues.ssml === (ssmlOverrideForSection2 ?? "") && (
+                <div style={{ display: "grid", gap: 6 }}>
+                  <label style={{ color: "#b91c1c" }}>The server rejected this SSML</label>
+                  <ul className="small" style={{ margin: 0, paddingLeft: 18 }}>
+                    {ssmlServerIssues.issues.map((issue, i) => {
+                      const { line, column } = lineAndColumn(ssmlServerIssues.ssml, issue.offset);
+                      return (
+                        <li key={i}>
+                          {issue.element && <kbd>&lt;{issue.element}&gt;</kbd>} line {line}, column {column}:{" "}
+                          {issue.message}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {ssmlServerIssues.ssml && (
+                    <pre
+                      className="small"
+                      style={{ whiteSpace: "pre-wrap", margin: 0, padding: 8, border: "1px solid #e5e7eb", borderRadius: 8 }}
+                    >
+                      {renderSsmlWithIssues(ssmlServerIssues.ssml, ssmlServerIssues.issues)}
+                    </pre>
+                  )}
+                </div>
+              )}
+
+              {showAdvancedSsml && (
+                <div style={{ display: "grid", gap: 6 }}>
+                  <label>Generated SSML (read-only)</label>
+                  <textarea rows={8} readOnly value={ssmlOverrideForSection2 ?? ""} />
+                  <div className="small">For researcher debugging only.</div>
+                </div>
+              )}
+
+
+              <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
+                    <div className="small" style={{ fontWeight: 700, marginBottom: 6 }}>
+                      Preview with highlights
+                    </div>
+                    <div style={{ lineHeight: 1.6 }}>
+                      {renderHighlightedText(ssmlBaseText || descriptionText, ssmlMarks)}
+                    </div>
+                    {ssmlMarks.spans.length > 0 && (
+                      <div className="small" style={{ marginTop: 8 }}>
+                        Tip: hover highlighted text to see the applied settings; stacked underlines show nested edits.
+                      </div>
+                    )}
+                </div>
+
+              
+            </div>
+          }
+        />
+      );
+    }
+
+    return (
+        <AudioPlayer
+          key={mode}
+          title={`${n}) Intonation + Music`}
+          descriptionText={descriptionText}
+          mode="emotion_music"
+          emotionPreset={emotionPreset}
+          frozenAudioUrl={activePack?.audioUrls.emotion_music}
+          footer={renderResponsePanel(mode)}
+          telemetry={telemetry}
+          headerExtra={
+            <div style={{ display: "grid", gap: 6 }}>
+              <label>Emotion preset (Condition 3 only)</label>
+              <select value={emotionPreset} onChange={(e) => setEmotionPreset(e.target.value as any)}>
+                <option value="neutral">neutral</option>
+                <option value="warm">warm</option>
+                <option value="excited">excited</option>
+                <option value="somber">somber</option>
+                <option value="mysterious">mysterious</option>
+              </select>
+              <div className="small">This does not affect Condition 2 (Azure SSML).</div>
+            </div>
+          }
+        />
+    );
+  }
+
+  return (
+    <main style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+      <div className="card">
+        <h1>Researcher workbench</h1>
+        <div className="small">
+          Flow: image → AI text description → (1) Baseline system TTS (2) Azure SSML intonation editor (3) Intonation + music.
+          Conditions are shown in a counterbalanced order assigned per session and stimulus. Participants take the blinded
+          study at <a href="/study">/study</a>.
+        </div>
+
+        <div className="row" style={{ marginTop: 10 }}>
+          <div style={{ minWidth: 260, flex: 1 }}>
+            <label>Participant ID (optional)</label>
+            <input value={participantId} onChange={(e) => setParticipantId(e.target.value)} placeholder="e.g., P001" />
+          </div>
+          <div className="small">
+            Study: {study ? `${study.name} (${study.status})` : (studyError ?? "loading…")}
+            <br />
+            Session: <kbd>{sessionId ?? "not started"}</kbd>
+          </div>
+        </div>
+        <label className="small" style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8 }}>
+          <input
+            type="checkbox"
+            checked={consentGiven}
+            disabled={!consentForm || !!sessionId}
+            onChange={(e) => setConsentGiven(e.target.checked)}
+          />
+          {consentForm
+            ? `Participant has read and accepted “${consentForm.title}” (version ${consentForm.version})`
+            : "No active consent form (see /api/consent)"}
+        </label>
+
+        <hr />
+
+        <h2>Stimulus image</h2>
+        <div className="small">Choose one of the catalog stimuli, or upload your own image.</div>
+
+        <div style={{ marginTop: 10 }}>
+          <div className="small" style={{ fontWeight: 700, marginBottom: 6 }}>
+            Stimulus catalog
+          </div>
+
+          {stimuliError && <div className="small">Could not load stimuli: {stimuliError}</div>}
+          {!stimuliError && stimuli.length === 0 && (
+            <div className="small">No active stimuli. Add some via <kbd>POST /api/stimuli</kbd>.</div>
+          )}
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: 10 }}>
+            {stimuli.map((st) => (
+              <button
+                key={st.id}
+                type="button"
+                className={selectedStimulusId === st.id && !imageFile ? "" : "secondary"}
+                onClick={() => {
+                  setSelectedStimulusId(st.id);
+                  setImageFile(null);
+                  setUploadedImageId(null);
+                  if (uploadPreviewUrl) URL.revokeObjectURL(uploadPreviewUrl);
+                  setUploadPreviewUrl(null);
+                }}
+                style={{ textAlign: "left" }}
+              >
+                <div
+                  style={{
+                    position: "relative",
+                    width: "100%",
+                    height: 120,
+                    borderRadius: 12,
+                    overflow: "hidden",
+                    border: "1px solid #e5e7eb",
+                  }}
+                >
+                  <Image src={st.filePath} alt={st.altText} fill style={{ objectFit: "cover" }} unoptimized />
+                </div>
+                <div style={{ marginTop: 8, fontWeight: 700 }}>{st.title}</div>
+                <div style={{ fontSize: 12 }}>
+                  {[st.artist, st.year, st.movement].filter((v) => v != null && v !== "").join(" · ")}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <div className="small" style={{ fontWeight: 700, marginBottom: 6 }}>
+            Or upload an image
+          </div>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              const f = e.target.files?.[0] ?? null;
+              setImageFile(f);
+              setUploadedImageId(null);
+              if (f) {
+                const url = URL.createObjectURL(f);
+                setUploadPreviewUrl(url);
+              } else {
+                setUploadPreviewUrl(null);
+              }
+            }}
+          />
+          {imageFile && (
+            <div className="row" style={{ marginTop: 8 }}>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => {
+                  setImageFile(null);
+                  setUploadedImageId(null);
+                  if (uploadPreviewUrl) URL.revokeObjectURL(uploadPreviewUrl);
+                  setUploadPreviewUrl(null);
+                }}
+              >
+                Clear upload and use catalog
+              </button>
+            </div>
+          )}
+        </div>
+
+        {effectivePreview && (
+          <div style={{ marginTop: 12 }}>
+            <div className="small" style={{ marginBottom: 6 }}>
+              Preview
+            </div>
+            <div
+              style={{
+                position: "relative",
+                width: "100%",
+                height: 320,
+                borderRadius: 14,
+                overflow: "hidden",
+                border: "1px solid #e5e7eb",
+              }}
+            >
+              <Image
+                src={effectivePreview}
+                alt={!imageFile && selectedStimulus ? selectedStimulus.altText : "Selected artwork"}
+                fill
+                style={{ objectFit: "contain" }}
+                unoptimized
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="row" style={{ marginTop: 12 }}>
+          <button onClick={generateDescription} disabled={describeLoading || !!activePack}>
+            {describeLoading ? "Generating description..." : describeOut ? "Regenerate description" : "Generate description"}
+          </button>
+          {activePack && <div className="small">Using the frozen description from the approved pack.</div>}
+        </div>
+        {describeLimited && (
+          <div className="small" role="status" style={{ marginTop: 6, color: "#b91c1c" }}>
+            {describeLimited}
+          </div>
+        )}
+
+        {shownDescription && (
+          <div style={{ marginTop: 12 }}>
+            <hr />
+            <h2>AI Description</h2>
+            <div className="small" style={{ marginBottom: 6 }}>
+              Version: <kbd>{shownDescription.descriptionId}</kbd>
+            </div>
+            <div style={{ whiteSpace: "pre-wrap" }}>{shownDescription.description}</div>
+
+            {shownDescription.styleHints?.length > 0 && (
+              <>
+                <div className="small" style={{ marginTop: 10, fontWeight: 700 }}>
+                  Style hints
+                </div>
+                <ul>
+                  {shownDescription.styleHints.map((s, idx) => (
+                    <li key={idx}>{s}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {shownDescription.safetyNotes && (
+              <div className="small" style={{ marginTop: 10 }}>Note: {shownDescription.safetyNotes}</div>
+            )}
+          </div>
+        )}
+
+        {!imageFile && selectedStimulus && (
+          <div style={{ marginTop: 12 }}>
+            <hr />
+            <h2>Frozen stimulus pack</h2>
+            {approvedPack ? (
+              <div className="row">
+                <div className="small">
+                  Approved pack <kbd>{approvedPack.id}</kbd> (voice {approvedPack.azureVoiceName}, preset{" "}
+                  {approvedPack.emotionPreset}).
+                </div>
+                <label className="small" style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                  <input type="checkbox" checked={useFrozenPack} onChange={(e) => setUseFrozenPack(e.target.checked)} />
+                  Play frozen assets
+                </label>
+              </div>
+            ) : (
+              <div className="small">No approved pack for this stimulus yet; audio is generated on demand.</div>
+            )}
+
+            <div className="row" style={{ marginTop: 8 }}>
+              <button className="secondary" disabled={packBusy || !describeOut} onClick={freezePack}>
+                {packBusy && !draftPack ? "Freezing..." : "Freeze current description, SSML and voices"}
+              </button>
+              <div className="small">Generates and stores the audio for conditions 2 and 3 as a draft.</div>
+            </div>
+
+            {draftPack && (
+              <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+                <div className="small">
+                  Draft <kbd>{draftPack.id}</kbd> — listen before approving:
+                </div>
+                <audio src={draftPack.audioUrls.emotion} controls style={{ width: "100%" }} />
+                <audio src={draftPack.audioUrls.emotion_music} controls style={{ width: "100%" }} />
+                <div className="row">
+                  <button disabled={packBusy} onClick={approveDraftPack}>
+                    Approve draft
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+
+
+      <div className="grid">
+        {activeOrder.map((mode, idx) => renderConditionCard(mode, idx))}
+      </div>
+
+      <div className="card">
+        <h2>Participant response</h2>
+        <div className="small">
+          Rate each version under its player above, then submit once for this stimulus. These are example metrics.
+          Replace with your study’s validated scales if needed.
+        </div>
+
+        <div className="row" style={{ marginTop: 10 }}>
+          <button onClick={submit} disabled={!sessionId}>
+            Submit
+          </button>
+          <div className="small">Tip: for multiple trials per participant, keep the session and Submit after each stimulus.</div>
+        </div>
+      </div>
+
+      <div className="small">
+        Stimuli come from the <kbd>Stimulus</kbd> table (seeded with the images in <kbd>public/arts_example/</kbd>). Manage
+        them via <kbd>/api/stimuli</kbd>.
+      </div>
+    </main>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { ReactNode } from "react";
+import { logPlaybackEvent } from "@/lib/playbackLog";
+import type { SsmlIssue } from "@/lib/ssml";
+import type { PlaybackEventInput, PlaybackEventType } from "@/lib/types";
 
 type Props = {
   title: string;
@@ -12,11 +15,25 @@ type Props = {
   emotionPreset?: "neutral" | "warm" | "excited" | "somber" | "mysterious";
 
   headerExtra?: ReactNode;
+  // Rendered below the player controls (e.g., the participant's ratings for this condition).
+  footer?: ReactNode;
 
   // Section 2: Azure SSML
   useAzureForEmotion?: boolean; // default true
   ssmlOverride?: string; // full SSML document (optional)
   azureVoiceName?: string; // e.g., en-US-Davis:DragonHDLatestNeural
+  // Called instead of an alert when the server rejects the SSML, with the offending elements and offsets.
+  onSsmlIssues?: (issues: SsmlIssue[]) => void;
+
+  // Pre-generated audio from an approved stimulus pack; when set, the generators are not called.
+  frozenAudioUrl?: string;
+
+  // When set, playback events are logged to /api/study/events for this session and stimulus.
+  telemetry?: { sessionId: string; stimulusKey: string };
+
+  // Participant view: no condition, provider or cache details, the same control labels for every
+  // condition, and the music bed follows the voice instead of having its own button.
+  blinded?: boolean;
 };
 
 export function AudioPlayer({
@@ -25,27 +42,94 @@ export function AudioPlayer({
   mode,
   emotionPreset = "neutral",
   headerExtra,
+  footer,
   useAzureForEmotion = true,
   ssmlOverride,
   azureVoiceName,
+  onSsmlIssues,
+  frozenAudioUrl,
+  telemetry,
+  blinded = false,
 }: Props) {
   const [loading, setLoading] = useState(false);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [generatedUrl, setGeneratedUrl] = useState<string | null>(null);
+  const audioUrl = frozenAudioUrl ?? generatedUrl;
+  // Server-side cache id of the generated audio (same input => same id and bytes), plus which
+  // TTS provider produced it and its duration.
+  const [cacheInfo, setCacheInfo] = useState<{
+    audioId: string;
+    hit: boolean;
+    provider: string | null;
+    durationMs: number | null;
+  } | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Set when the server rate-limits generation (HTTP 429); generating is paused until retryAt.
+  const [limited, setLimited] = useState<{ message: string; retryAt: number } | null>(null);
 
   // Simple “music bed” placeholder using WebAudio oscillators for MVP.
   const [musicOn, setMusicOn] = useState(false);
   const musicCtxRef = useRef<AudioContext | null>(null);
   const musicNodesRef = useRef<{ osc: OscillatorNode; gain: GainNode }[] | null>(null);
 
-  async function generateAIVoice() {
-    setLoading(true);
+  // Set by the Stop button, so the utterance's end event is logged as a cancel rather than completion.
+  const speechCancelledRef = useRef(false);
 
-    // Revoke previous blob URL before generating a new one
-    setAudioUrl((prev) => {
+  type EventDetail = Pick<PlaybackEventInput, "positionMs" | "durationMs" | "charIndex" | "charLength">;
+
+  function logEvent(type: PlaybackEventType, detail: EventDetail = {}) {
+    if (!telemetry) return;
+    const source = mode === "tts" ? "system" : frozenAudioUrl ? "frozen" : "generated";
+    logPlaybackEvent(telemetry.sessionId, { stimulusKey: telemetry.stimulusKey, condition: mode, type, source, ...detail });
+  }
+
+  function logAudioEvent(type: PlaybackEventType) {
+    const el = audioRef.current;
+    if (!el) return logEvent(type);
+    logEvent(type, {
+      positionMs: Math.round(el.currentTime * 1000),
+      durationMs: Number.isFinite(el.duration) ? Math.round(el.duration * 1000) : undefined,
+    });
+  }
+
+  async function loadAudioResponse(res: Response) {
+    if (res.status === 429) {
+      const body = await res.json().catch(() => null);
+      const retryAfter = Number(res.headers.get("Retry-After") ?? body?.retryAfterSeconds ?? 60);
+      setLimited({
+        message: body?.error ?? "Too many generations right now.",
+        retryAt: Date.now() + retryAfter * 1000,
+      });
+      return;
+    }
+    if (res.status === 400 && onSsmlIssues) {
+      const body = await res.clone().json().catch(() => null);
+      if (Array.isArray(body?.issues)) return onSsmlIssues(body.issues);
+    }
+    if (!res.ok) throw new Error(await res.text());
+    const audioId = res.headers.get("X-Audio-Id");
+    const duration = res.headers.get("X-Audio-Duration-Ms");
+    setCacheInfo(
+      audioId
+        ? {
+            audioId,
+            hit: res.headers.get("X-Audio-Cache") === "HIT",
+            provider: res.headers.get("X-TTS-Provider"),
+            durationMs: duration ? Number(duration) : null,
+          }
+        : null
+    );
+    const url = URL.createObjectURL(await res.blob());
+    // The previous audio stays playable until new audio replaces it; a rejected request keeps it.
+    setGeneratedUrl((prev) => {
       if (prev) URL.revokeObjectURL(prev);
-      return null;
+      return url;
     });
+  }
+
+  async function generateAIVoice() {
+    setLoading(true);
+    setLimited(null);
+    logEvent(generatedUrl ? "regenerate" : "generate");
 
     try {
       // Section 2: Emotional intonation via Azure SSML
@@ -62,10 +146,7 @@ export function AudioPlayer({
           }),
         });
 
-        if (!res.ok) throw new Error(await res.text());
-        const blob = await res.blob();
-        const url = URL.createObjectURL(blob);
-        setAudioUrl(url);
+        await loadAudioResponse(res);
         return;
       }
 
@@ -76,10 +157,7 @@ export function AudioPlayer({
         body: JSON.stringify({ text: descriptionText, mode, emotionPreset }),
       });
 
-      if (!res.ok) throw new Error(await res.text());
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      setAudioUrl(url);
+      await loadAudioResponse(res);
     } catch (e: any) {
       console.error(e);
       alert(e?.message ?? "Failed to generate audio.");
@@ -132,7 +210,7 @@ export function AudioPlayer({
 
   useEffect(() => {
     return () => {
-      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      if (generatedUrl) URL.revokeObjectURL(generatedUrl);
       stopMusic();
       // Stop any system speech if user navigates away
       if (typeof window !== "undefined" && "speechSynthesis" in window) {
@@ -142,6 +220,13 @@ export function AudioPlayer({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Re-enable generating once the rate limit window has passed.
+  useEffect(() => {
+    if (!limited) return;
+    const timer = setTimeout(() => setLimited(null), Math.max(0, limited.retryAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [limited]);
+
   useEffect(() => {
     if (mode !== "emotion_music") {
       stopMusic();
@@ -155,9 +240,19 @@ export function AudioPlayer({
 
   const subtitle = useMemo(() => {
     if (mode === "tts") return "Baseline system TTS (browser/OS default voice).";
-    if (mode === "emotion") return useAzureForEmotion ? "Azure SSML (word/phrase-level prosody control)." : "Emotional intonation (AI TTS).";
-    return "Emotional intonation + background music (placeholder music bed in MVP).";
-  }, [mode, useAzureForEmotion]);
+    const frozen = frozenAudioUrl ? " Playing frozen audio from the approved stimulus pack." : "";
+    if (mode === "emotion") {
+      return (useAzureForEmotion ? "Azure SSML (word/phrase-level prosody control)." : "Emotional intonation (AI TTS).") + frozen;
+    }
+    return "Emotional intonation + background music (placeholder music bed in MVP)." + frozen;
+  }, [mode, useAzureForEmotion, frozenAudioUrl]);
+
+  // Blinded emotion_music: the music bed plays exactly while the voice does.
+  function followVoiceWithMusic(on: boolean) {
+    if (!blinded || mode !== "emotion_music" || on === musicOn) return;
+    logEvent(on ? "music_on" : "music_off");
+    setMusicOn(on);
+  }
 
   function speakSystemTTS() {
     if (typeof window === "undefined" || !("speechSynthesis" in window)) {
@@ -167,24 +262,47 @@ export function AudioPlayer({
     window.speechSynthesis.cancel();
     const u = new SpeechSynthesisUtterance(descriptionText);
     // Do not set u.voice => use system/browser default voice
+
+    // Browsers differ in whether cancel() fires "end", "error" or both; log only the first.
+    const charLength = descriptionText.length;
+    let spokenTo = 0;
+    let finished = false;
+    const finish = (cancelled: boolean) => {
+      if (finished) return;
+      finished = true;
+      logEvent(cancelled ? "speech_cancel" : "speech_end", { charIndex: cancelled ? spokenTo : charLength, charLength });
+    };
+    u.onstart = () => {
+      speechCancelledRef.current = false;
+      logEvent("speech_start", { charIndex: 0, charLength });
+    };
+    u.onboundary = (e) => {
+      if (e.name !== "word") return;
+      spokenTo = e.charIndex + (e.charLength || 0);
+      logEvent("speech_boundary", { charIndex: spokenTo, charLength });
+    };
+    u.onend = () => finish(speechCancelledRef.current);
+    u.onerror = () => finish(true);
+
     window.speechSynthesis.speak(u);
   }
 
   function stopSystemTTS() {
     if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    speechCancelledRef.current = true;
     window.speechSynthesis.cancel();
   }
 
   return (
     <div className="card">
       <h2>{title}</h2>
-      <div className="small">{subtitle}</div>
+      {!blinded && <div className="small">{subtitle}</div>}
       {headerExtra ? <div style={{ marginTop: 10 }}>{headerExtra}</div> : null}
 
       {mode === "tts" ? (
         <div className="row" style={{ marginTop: 10 }}>
           <button onClick={speakSystemTTS} disabled={!descriptionText}>
-            Speak (system)
+            {blinded ? "Play" : "Speak (system)"}
           </button>
           <button className="secondary" onClick={stopSystemTTS}>
             Stop
@@ -193,19 +311,27 @@ export function AudioPlayer({
       ) : (
         <>
           <div className="row" style={{ marginTop: 10 }}>
-            <button onClick={generateAIVoice} disabled={loading || !descriptionText}>
-              {loading ? "Generating..." : audioUrl ? "Regenerate voice" : "Generate voice"}
-            </button>
+            {!frozenAudioUrl && (
+              <button onClick={generateAIVoice} disabled={loading || !!limited || !descriptionText}>
+                {loading ? "Generating..." : audioUrl ? "Regenerate voice" : "Generate voice"}
+              </button>
+            )}
 
-            {mode === "emotion_music" && (
-              <button className="secondary" onClick={() => setMusicOn((v) => !v)}>
+            {mode === "emotion_music" && !blinded && (
+              <button
+                className="secondary"
+                onClick={() => {
+                  logEvent(musicOn ? "music_off" : "music_on");
+                  setMusicOn((v) => !v);
+                }}
+              >
                 {musicOn ? "Stop music bed" : "Play music bed"}
               </button>
             )}
 
             {audioUrl && (
-              <button className="secondary" onClick={() => audioRef.current?.play()}>
-                Play voice
+              <button className={blinded ? "" : "secondary"} onClick={() => audioRef.current?.play()}>
+                {blinded ? "Play" : "Play voice"}
               </button>
             )}
             {audioUrl && (
@@ -215,13 +341,49 @@ export function AudioPlayer({
             )}
           </div>
 
-          {audioUrl && <audio ref={audioRef} src={audioUrl} controls style={{ width: "100%", marginTop: 10 }} />}
+          {audioUrl && (
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              style={{ width: "100%", marginTop: 10 }}
+              onPlay={() => {
+                logAudioEvent("play");
+                followVoiceWithMusic(true);
+              }}
+              onPause={() => {
+                logAudioEvent("pause");
+                followVoiceWithMusic(false);
+              }}
+              onSeeked={() => logAudioEvent("seek")}
+              onEnded={() => {
+                logAudioEvent("ended");
+                followVoiceWithMusic(false);
+              }}
+            />
+          )}
+          {limited && (
+            <div className="small" role="status" style={{ marginTop: 6, color: "#b91c1c" }}>
+              {limited.message}
+            </div>
+          )}
+          {!blinded && !frozenAudioUrl && generatedUrl && cacheInfo && (
+            <div className="small" style={{ marginTop: 6 }}>
+              Audio <kbd>{cacheInfo.audioId.slice(0, 12)}</kbd> {cacheInfo.hit ? "(served from cache)" : "(newly synthesized)"}
+              {cacheInfo.provider ? ` · ${cacheInfo.provider}` : ""}
+              {cacheInfo.durationMs != null ? ` · ${(cacheInfo.durationMs / 1000).toFixed(1)}s` : ""}
+            </div>
+          )}
         </>
       )}
 
-      <div className="small" style={{ marginTop: 10 }}>
-        Disclosure: Condition 2 uses Azure Speech TTS (SSML). Condition 3 uses AI-generated TTS plus a placeholder music bed.
-      </div>
+      {!blinded && (
+        <div className="small" style={{ marginTop: 10 }}>
+          Disclosure: Condition 2 uses Azure Speech TTS (SSML). Condition 3 uses AI-generated TTS plus a placeholder music bed.
+        </div>
+      )}
+
+      {footer ? <div style={{ marginTop: 10 }}>{footer}</div> : null}
     </div>
   );
 }
@@ -1,34 +1,50 @@
 "use client";
 
+import type { ScaleAnchor } from "@/lib/types";
+
 type Props = {
   label: string;
+  // Radio group name; must be unique on the page when the same question is asked more than once.
+  name?: string;
   value?: number;
   onChange: (v: number) => void;
   min?: number;
   max?: number;
+  // Labels for individual scale points, e.g. [{ value: 1, label: "Low" }, { value: 7, label: "High" }].
+  anchors?: ScaleAnchor[];
+  required?: boolean;
 };
 
-export function Likert({ label, value, onChange, min = 1, max = 7 }: Props) {
+export function Likert({ label, name = label, value, onChange, min = 1, max = 7, anchors, required }: Props) {
   const items = [];
   for (let i = min; i <= max; i++) items.push(i);
+  const anchorFor = (n: number) => anchors?.find((a) => a.value === n)?.label;
+  const labelled = anchors ?? [
+    { value: min, label: "low" },
+    { value: max, label: "high" }
+  ];
 
   return (
     <div className="card" style={{ padding: 12 }}>
-      <div style={{ fontWeight: 700, marginBottom: 8 }}>{label}</div>
-      <div className="row" role="radiogroup" aria-label={label}>
+      <div style={{ fontWeight: 700, marginBottom: 8 }}>
+        {label}
+        {required && <span aria-hidden="true"> *</span>}
+      </div>
+      <div className="row" role="radiogroup" aria-label={label} aria-required={required}>
         {items.map((n) => (
           <label key={n} style={{ display: "flex", gap: 6, alignItems: "center" }}>
             <input
               type="radio"
-              name={label}
+              name={name}
               checked={value === n}
               onChange={() => onChange(n)}
             />
             <span>{n}</span>
+            {anchorFor(n) && <span className="small">{anchorFor(n)}</span>}
           </label>
         ))}
       </div>
-      <div className="small">1 = low, 7 = high</div>
+      {!anchors && <div className="small">{labelled.map((a) => `${a.value} = ${a.label}`).join(", ")}</div>}
     </div>
   );
 }
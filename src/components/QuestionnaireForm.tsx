@@ -0,0 +1,171 @@
+"use client";
+
+import { Likert } from "@/components/Likert";
+import type { ItemValue, QuestionnaireInfo, QuestionnaireItemInfo } from "@/lib/types";
+
+type Props = {
+  questionnaire: QuestionnaireInfo;
+  values: Record<string, ItemValue | undefined>; // keyed by item id
+  onChange: (itemId: string, value: ItemValue) => void;
+  // Prefix for input names; must differ when the same questionnaire is shown more than once on a page.
+  namePrefix?: string;
+};
+
+// Required items without an answer (the server runs the same check on submit).
+export function missingRequiredItems(questionnaire: QuestionnaireInfo, values: Record<string, ItemValue | undefined>) {
+  return questionnaire.items.filter((item) => {
+    const v = values[item.id];
+    return item.required && (v == null || (typeof v === "string" && !v.trim()) || (Array.isArray(v) && !v.length));
+  });
+}
+
+export function QuestionnaireForm({ questionnaire, values, onChange, namePrefix = questionnaire.key }: Props) {
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "1fr", gap: 10 }}>
+      {questionnaire.instructions && <div className="small">{questionnaire.instructions}</div>}
+      {questionnaire.items.map((item) => (
+        <QuestionnaireItemField
+          key={item.id}
+          item={item}
+          name={`${namePrefix}-${item.key}`}
+          value={values[item.id]}
+          onChange={(v) => onChange(item.id, v)}
+        />
+      ))}
+    </div>
+  );
+}
+
+type FieldProps = {
+  item: QuestionnaireItemInfo;
+  name: string;
+  value: ItemValue | undefined;
+  onChange: (v: ItemValue) => void;
+};
+
+function ItemLabel({ item }: { item: QuestionnaireItemInfo }) {
+  return (
+    <div style={{ fontWeight: 700, marginBottom: 8 }}>
+      {item.text}
+      {item.required && <span aria-hidden="true"> *</span>}
+    </div>
+  );
+}
+
+function QuestionnaireItemField({ item, name, value, onChange }: FieldProps) {
+  const min = item.min ?? 1;
+  const max = item.max ?? 7;
+  const pole = (v: number) => item.anchors.find((a) => a.value === v)?.label ?? "";
+
+  switch (item.type) {
+    case "likert":
+      return (
+        <Likert
+          label={item.text}
+          name={name}
+          value={typeof value === "number" ? value : undefined}
+          onChange={onChange}
+          min={min}
+          max={max}
+          anchors={item.anchors.length ? item.anchors : undefined}
+          required={item.required}
+        />
+      );
+
+    // Unnumbered points between two opposite adjectives, e.g. "calm ... agitated".
+    case "semantic_differential": {
+      const points = [];
+      for (let i = min; i <= max; i++) points.push(i);
+      return (
+        <div className="card" style={{ padding: 12 }}>
+          <ItemLabel item={item} />
+          <div className="row" role="radiogroup" aria-label={item.text} aria-required={item.required}>
+            <span>{pole(min)}</span>
+            {points.map((n) => (
+              <input
+                key={n}
+                type="radio"
+                name={name}
+                aria-label={`${n}`}
+                checked={value === n}
+                onChange={() => onChange(n)}
+              />
+            ))}
+            <span>{pole(max)}</span>
+          </div>
+        </div>
+      );
+    }
+
+    // Visual analogue scale: no value until the participant moves the thumb.
+    case "slider":
+      return (
+        <div className="card" style={{ padding: 12 }}>
+          <ItemLabel item={item} />
+          <div className="row" style={{ alignItems: "center" }}>
+            <span className="small">{pole(min)}</span>
+            <input
+              type="range"
+              name={name}
+              aria-label={item.text}
+              min={min}
+              max={max}
+              step={item.step ?? "any"}
+              value={typeof value === "number" ? value : (min + max) / 2}
+              onChange={(e) => onChange(Number(e.target.value))}
+              style={{ flex: 1, opacity: typeof value === "number" ? 1 : 0.5 }}
+            />
+            <span className="small">{pole(max)}</span>
+          </div>
+          <div className="small">{typeof value === "number" ? `Selected: ${value}` : "Not answered yet"}</div>
+        </div>
+      );
+
+    case "multiple_choice": {
+      const chosen = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+      return (
+        <div className="card" style={{ padding: 12 }}>
+          <ItemLabel item={item} />
+          <div role={item.multiple ? "group" : "radiogroup"} aria-label={item.text} aria-required={item.required}>
+            {item.options.map((o) => (
+              <label key={o.value} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <input
+                  type={item.multiple ? "checkbox" : "radio"}
+                  name={name}
+                  checked={chosen.includes(o.value)}
+                  onChange={(e) =>
+                    onChange(
+                      item.multiple
+                        ? e.target.checked
+                          ? [...chosen, o.value]
+                          : chosen.filter((v) => v !== o.value)
+                        : o.value
+                    )
+                  }
+                />
+                <span>{o.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    case "free_text":
+      return (
+        <div className="card" style={{ padding: 12 }}>
+          <label htmlFor={name}>
+            {item.text}
+            {item.required && <span aria-hidden="true"> *</span>}
+          </label>
+          <textarea
+            id={name}
+            rows={3}
+            maxLength={2000}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,324 @@
+import { CONDITIONS } from "@/lib/counterbalance";
+import { mean, median } from "@/lib/stats";
+import { RATING_MEASURES, type AudioMode } from "@/lib/types";
+
+// Within-subject tests of tts vs emotion vs emotion_music on each Likert item: Friedman omnibus test,
+// then pairwise Wilcoxon signed-rank tests with Holm correction. Pure and deterministic — it runs on
+// rows shaped like the `long` export table, so results can be reproduced from an export (and match
+// R's friedman.test / wilcox.test(paired = TRUE) / p.adjust(method = "holm")).
+
+export type LongRow = {
+  participant_id: string;
+  stimulus_key: string;
+  condition: string;
+  measure: string;
+  value: number;
+};
+
+// Normalizes rows of the long table as parsed from the JSON or CSV export (where every cell is a string).
+export function toLongRows(rows: Record<string, unknown>[]): LongRow[] {
+  return rows
+    .map((r) => ({
+      participant_id: String(r.participant_id),
+      stimulus_key: String(r.stimulus_key),
+      condition: String(r.condition),
+      measure: String(r.measure),
+      value: Number(r.value)
+    }))
+    .filter((r) => Number.isFinite(r.value));
+}
+
+// "participant": one block per participant, ratings averaged over stimuli (the usual analysis).
+// "trial": one block per participant × stimulus.
+export type AnalysisUnit = "participant" | "trial";
+
+export type FriedmanResult = {
+  n: number; // complete blocks
+  k: number;
+  chiSquared: number | null;
+  df: number;
+  p: number | null;
+  kendallW: number | null; // effect size, 0-1
+  meanRanks: Partial<Record<AudioMode, number | null>>; // the conditions analysed
+};
+
+export type WilcoxonResult = {
+  a: AudioMode;
+  b: AudioMode;
+  n: number; // pairs with a non-zero difference
+  V: number | null; // sum of ranks of positive differences (a - b), as reported by R
+  z: number | null; // normal approximation, without continuity correction
+  p: number | null;
+  pHolm: number | null;
+  exact: boolean;
+  r: number | null; // |z| / sqrt(n)
+  rankBiserial: number | null; // matched-pairs rank-biserial correlation, -1..1 (positive: a > b)
+  medianDifference: number | null;
+};
+
+export type MeasureAnalysis = {
+  measure: string;
+  question: string;
+  descriptives: Partial<Record<AudioMode, { n: number; mean: number | null; median: number | null }>>;
+  friedman: FriedmanResult;
+  pairwise: WilcoxonResult[];
+};
+
+// ---------------------------------------------------------------------------------------------
+// Distributions
+
+// Complementary error function (Numerical Recipes erfcc; fractional error < 1.2e-7).
+const ERFC_COEFFS = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+  0.17087277
+];
+
+function erfc(x: number) {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  let poly = 0;
+  for (let i = ERFC_COEFFS.length - 1; i >= 0; i--) poly = ERFC_COEFFS[i] + t * poly;
+  const r = t * Math.exp(-z * z + poly);
+  return x >= 0 ? r : 2 - r;
+}
+
+export function normalCdf(z: number) {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9).
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Regularized upper incomplete gamma Q(a, x), by series for x < a + 1 and continued fraction otherwise.
+function gammaQ(a: number, x: number) {
+  if (x <= 0) return 1;
+  const gln = logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-15) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+export function chiSquaredSf(x: number, df: number) {
+  return gammaQ(df / 2, x / 2);
+}
+
+// ---------------------------------------------------------------------------------------------
+// Tests
+
+// Ranks 1..n with ties given their average rank.
+export function averageRanks(xs: number[]) {
+  const order = xs.map((x, i) => [x, i] as const).sort((p, q) => p[0] - q[0]);
+  const ranks = new Array<number>(xs.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let t = i; t <= j; t++) ranks[order[t][1]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+function tieGroupSizes(xs: number[]) {
+  const counts = new Map<number, number>();
+  for (const x of xs) counts.set(x, (counts.get(x) ?? 0) + 1);
+  return [...counts.values()];
+}
+
+// blocks[i][j]: score of block i under treatment j. Tie-corrected statistic, as in R.
+export function friedmanTest(blocks: number[][], conditions: AudioMode[] = CONDITIONS): FriedmanResult {
+  const k = conditions.length;
+  const n = blocks.length;
+  const empty = { n, k, chiSquared: null, df: k - 1, p: null, kendallW: null };
+  if (n < 2) return { ...empty, meanRanks: Object.fromEntries(conditions.map((c) => [c, null])) as FriedmanResult["meanRanks"] };
+
+  const rankSums = new Array<number>(k).fill(0);
+  let tieTerm = 0;
+  for (const block of blocks) {
+    averageRanks(block).forEach((r, j) => (rankSums[j] += r));
+    for (const t of tieGroupSizes(block)) tieTerm += t ** 3 - t;
+  }
+  const meanRanks = Object.fromEntries(conditions.map((c, j) => [c, rankSums[j] / n])) as FriedmanResult["meanRanks"];
+
+  const denominator = n * k * (k + 1) - tieTerm / (k - 1);
+  if (denominator === 0) return { ...empty, meanRanks }; // every block fully tied
+  const chiSquared = (12 * rankSums.reduce((s, r) => s + (r - (n * (k + 1)) / 2) ** 2, 0)) / denominator;
+  return {
+    n,
+    k,
+    chiSquared,
+    df: k - 1,
+    p: chiSquaredSf(chiSquared, k - 1),
+    kendallW: chiSquared / (n * (k - 1)),
+    meanRanks
+  };
+}
+
+// Number of subsets of {1..n} with each rank sum: the exact null distribution of V.
+function signedRankCounts(n: number) {
+  const max = (n * (n + 1)) / 2;
+  const counts = new Array<number>(max + 1).fill(0);
+  counts[0] = 1;
+  for (let r = 1; r <= n; r++) {
+    for (let s = max; s >= r; s--) counts[s] += counts[s - r];
+  }
+  return counts;
+}
+
+// Paired two-sided Wilcoxon signed-rank test of a vs b. Zero differences are dropped; the exact
+// distribution is used for n < 50 without ties or zeros, otherwise the normal approximation with tie
+// and continuity correction (R's defaults).
+export function wilcoxonSignedRank(pairs: [number, number][], a: AudioMode, b: AudioMode): WilcoxonResult {
+  const diffs = pairs.map(([x, y]) => x - y);
+  const nonZero = diffs.filter((d) => d !== 0);
+  const n = nonZero.length;
+  const base = { a, b, n, pHolm: null, medianDifference: median(diffs) };
+  if (n === 0) return { ...base, V: null, z: null, p: null, exact: false, r: null, rankBiserial: null };
+
+  const ranks = averageRanks(nonZero.map(Math.abs));
+  const V = nonZero.reduce((s, d, i) => s + (d > 0 ? ranks[i] : 0), 0);
+  const total = (n * (n + 1)) / 2;
+  const rankBiserial = (V - (total - V)) / total;
+
+  const ties = tieGroupSizes(nonZero.map(Math.abs));
+  const hasTies = ties.some((t) => t > 1);
+  const mu = total / 2;
+  const sigma = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - ties.reduce((s, t) => s + t ** 3 - t, 0) / 48);
+  const z = sigma > 0 ? (V - mu) / sigma : 0;
+  const r = Math.abs(z) / Math.sqrt(n);
+
+  const exact = n < 50 && !hasTies && nonZero.length === diffs.length;
+  let p: number;
+  if (exact) {
+    const counts = signedRankCounts(n);
+    const all = 2 ** n;
+    let lower = 0; // P(V <= v)
+    for (let s = 0; s <= V; s++) lower += counts[s];
+    let upper = 0; // P(V >= v)
+    for (let s = V; s <= total; s++) upper += counts[s];
+    p = Math.min(1, (2 * Math.min(lower, upper)) / all);
+  } else {
+    const correction = 0.5 * Math.sign(V - mu);
+    const zc = sigma > 0 ? (V - mu - correction) / sigma : 0;
+    p = Math.min(1, 2 * Math.min(normalCdf(zc), 1 - normalCdf(zc)));
+  }
+
+  return { ...base, V, z, p, exact, r, rankBiserial };
+}
+
+// Holm step-down adjustment; nulls (tests that could not be run) are left out.
+export function holm(ps: (number | null)[]): (number | null)[] {
+  const present = ps.map((p, i) => [p, i] as const).filter((e): e is readonly [number, number] => e[0] !== null);
+  present.sort((x, y) => x[0] - y[0]);
+  const adjusted: (number | null)[] = ps.map(() => null);
+  let running = 0;
+  present.forEach(([p, i], rank) => {
+    running = Math.max(running, Math.min(1, (present.length - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Analysis over long-format rows
+
+const PAIRS: [AudioMode, AudioMode][] = [
+  ["emotion", "tts"],
+  ["emotion_music", "tts"],
+  ["emotion_music", "emotion"]
+];
+
+// One score per block and condition; only blocks with all the conditions are kept.
+function completeBlocks(rows: LongRow[], measure: string, unit: AnalysisUnit, conditions: AudioMode[]) {
+  const byBlock = new Map<string, Map<string, number[]>>();
+  for (const row of rows) {
+    if (row.measure !== measure) continue;
+    const block = unit === "participant" ? row.participant_id : `${row.participant_id}\u0000${row.stimulus_key}`;
+    if (!byBlock.has(block)) byBlock.set(block, new Map());
+    const scores = byBlock.get(block)!;
+    if (!scores.has(row.condition)) scores.set(row.condition, []);
+    scores.get(row.condition)!.push(row.value);
+  }
+
+  // Sorted so the result does not depend on row order.
+  return [...byBlock.keys()]
+    .sort()
+    .map((key) => byBlock.get(key)!)
+    .filter((scores) => conditions.every((c) => scores.has(c)))
+    .map((scores) => conditions.map((c) => mean(scores.get(c)!)!));
+}
+
+// The rating measures, then any further questionnaire items found in the rows; `questions` supplies
+// the wording of those (keyed by measure), falling back to the measure name. `conditions` defaults to
+// those present in the rows, so a two-condition study is compared on its two conditions.
+export function analyzeRatings(
+  rows: LongRow[],
+  unit: AnalysisUnit = "participant",
+  questions: Record<string, string> = {},
+  conditions: AudioMode[] = CONDITIONS.filter((c) => rows.some((r) => r.condition === c))
+): MeasureAnalysis[] {
+  const pairs = PAIRS.filter(([a, b]) => conditions.includes(a) && conditions.includes(b));
+  const core = new Set<string>(RATING_MEASURES.map((m) => m.name));
+  const extra = [...new Set(rows.map((r) => r.measure))]
+    .filter((name) => !core.has(name))
+    .sort()
+    .map((name) => ({ name, question: questions[name] ?? name }));
+
+  return [...RATING_MEASURES, ...extra].map((m) => {
+    const blocks = completeBlocks(rows, m.name, unit, conditions);
+    const column = (c: AudioMode) => blocks.map((b) => b[conditions.indexOf(c)]);
+
+    const pairwise = pairs.map(([a, b]) =>
+      wilcoxonSignedRank(
+        blocks.map((block) => [block[conditions.indexOf(a)], block[conditions.indexOf(b)]]),
+        a,
+        b
+      )
+    );
+    const adjusted = holm(pairwise.map((w) => w.p));
+
+    return {
+      measure: m.name,
+      question: m.question,
+      descriptives: Object.fromEntries(
+        conditions.map((c) => [c, { n: blocks.length, mean: mean(column(c)), median: median(column(c)) }])
+      ) as MeasureAnalysis["descriptives"],
+      friedman: friedmanTest(blocks, conditions),
+      pairwise: pairwise.map((w, i) => ({ ...w, pHolm: adjusted[i] }))
+    };
+  });
+}
@@ -0,0 +1,156 @@
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { resolveStoragePath, sha256Hex } from "@/lib/storage";
+import type { TtsResult } from "@/lib/tts/types";
+
+// Content-addressed cache for synthesized audio. The entry id is a hash of everything that
+// influences the synthesis, so the same request always returns byte-identical audio.
+const CACHE_DIR = "audio-cache";
+
+export type AudioCacheKey = {
+  provider: string; // TtsProvider id: "openai" | "azure" | "local"
+  model: string | null;
+  voice: string | null;
+  instructions: string | null; // OpenAI instructions / emotion preset text
+  inputKind: "text" | "ssml";
+  input: string;
+  outputFormat: string;
+};
+
+export type AudioCacheEntry = AudioCacheKey & {
+  id: string;
+  contentType: string;
+  format: string;
+  durationMs: number | null;
+  byteSize: number;
+  audioSha256: string; // used as the ETag
+  createdAt: string;
+  lastHitAt: string | null;
+  hits: number;
+};
+
+export function audioCacheId(key: AudioCacheKey) {
+  // Fixed field order so the hash does not depend on how the caller built the object.
+  const canonical = JSON.stringify([
+    key.provider,
+    key.model,
+    key.voice,
+    key.instructions,
+    key.inputKind,
+    key.input,
+    key.outputFormat
+  ]);
+  return sha256Hex(canonical);
+}
+
+function isCacheId(id: string) {
+  return /^[0-9a-f]{64}$/.test(id);
+}
+
+function metaPath(id: string) {
+  return resolveStoragePath(path.posix.join(CACHE_DIR, `${id}.json`));
+}
+
+function audioPath(id: string) {
+  return resolveStoragePath(path.posix.join(CACHE_DIR, `${id}.bin`));
+}
+
+export async function getAudioCacheEntry(id: string): Promise<AudioCacheEntry | null> {
+  if (!isCacheId(id)) return null;
+  try {
+    return JSON.parse(await readFile(metaPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function readAudioCacheAudio(id: string) {
+  return readFile(audioPath(id));
+}
+
+// Concurrent identical requests share one synthesis call.
+const inflight = new Map<string, Promise<{ entry: AudioCacheEntry; audio: Buffer<ArrayBuffer> }>>();
+
+export async function getOrSynthesizeAudio(
+  key: AudioCacheKey,
+  synthesize: () => Promise<TtsResult>
+): Promise<{ entry: AudioCacheEntry; audio: Buffer<ArrayBuffer>; hit: boolean }> {
+  const id = audioCacheId(key);
+
+  const existing = await getAudioCacheEntry(id);
+  if (existing) {
+    const audio = await readAudioCacheAudio(id).catch(() => null);
+    if (audio) {
+      const entry = { ...existing, hits: existing.hits + 1, lastHitAt: new Date().toISOString() };
+      await writeFile(metaPath(id), JSON.stringify(entry, null, 2));
+      return { entry, audio, hit: true };
+    }
+  }
+
+  let pending = inflight.get(id);
+  if (!pending) {
+    pending = (async () => {
+      const { audio, contentType, format, durationMs } = await synthesize();
+      const entry: AudioCacheEntry = {
+        ...key,
+        id,
+        contentType,
+        format,
+        durationMs,
+        byteSize: audio.length,
+        audioSha256: sha256Hex(audio),
+        createdAt: new Date().toISOString(),
+        lastHitAt: null,
+        hits: 0
+      };
+      await mkdir(resolveStoragePath(CACHE_DIR), { recursive: true });
+      await writeFile(audioPath(id), audio);
+      await writeFile(metaPath(id), JSON.stringify(entry, null, 2));
+      return { entry, audio };
+    })().finally(() => inflight.delete(id));
+    inflight.set(id, pending);
+  }
+
+  return { ...(await pending), hit: false };
+}
+
+export async function listAudioCacheEntries(): Promise<AudioCacheEntry[]> {
+  const files = await readdir(resolveStoragePath(CACHE_DIR)).catch(() => [] as string[]);
+  const entries = await Promise.all(
+    files.filter((f) => f.endsWith(".json")).map((f) => getAudioCacheEntry(f.slice(0, -".json".length)))
+  );
+  return entries
+    .filter((e): e is AudioCacheEntry => e !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function purgeAudioCacheEntry(id: string) {
+  if (!(await getAudioCacheEntry(id))) return false;
+  await rm(audioPath(id), { force: true });
+  await rm(metaPath(id), { force: true });
+  return true;
+}
+
+// Purge all entries, optionally only those of one provider or created before a cutoff.
+export async function purgeAudioCache(filter: { provider?: string; createdBefore?: Date } = {}) {
+  const entries = await listAudioCacheEntries();
+  const doomed = entries.filter(
+    (e) =>
+      (!filter.provider || e.provider === filter.provider) &&
+      (!filter.createdBefore || new Date(e.createdAt) < filter.createdBefore)
+  );
+  for (const e of doomed) await purgeAudioCacheEntry(e.id);
+  return doomed.length;
+}
+
+export function audioCacheHeaders(entry: AudioCacheEntry, hit: boolean) {
+  return {
+    "Content-Type": entry.contentType,
+    ETag: `"${entry.audioSha256}"`,
+    "X-Audio-Id": entry.id,
+    "X-Audio-Cache": hit ? "HIT" : "MISS",
+    "X-TTS-Provider": entry.provider,
+    // Entries written before durations were recorded have no duration.
+    ...(entry.durationMs != null ? { "X-Audio-Duration-Ms": String(entry.durationMs) } : {})
+  };
+}
@@ -0,0 +1,99 @@
+// Signed session tokens for researchers and participants, kept in HttpOnly cookies. HMAC-SHA256 through
+// Web Crypto, so the same code runs in middleware (Edge runtime) and in route handlers.
+
+export const RESEARCHER_COOKIE = "researcher_session";
+export const PARTICIPANT_COOKIE = "participant_session";
+
+export const RESEARCHER_SESSION_MS = 12 * 60 * 60_000;
+
+// sub: Researcher id, or "token" for a sign-in with the shared RESEARCHER_TOKEN.
+export type ResearcherClaims = { kind: "researcher"; sub: string; exp: number };
+// sid: the one StudySession the participant may read and write.
+export type ParticipantClaims = { kind: "participant"; sid: string; exp: number };
+export type Claims = ResearcherClaims | ParticipantClaims;
+
+// AUTH_SECRET signs the cookies; small setups that only set RESEARCHER_TOKEN sign with that.
+export function authSecret() {
+  return process.env.AUTH_SECRET || process.env.RESEARCHER_TOKEN || null;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64url(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(text: string) {
+  return Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0));
+}
+
+function hmacKey(secret: string) {
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify"
+  ]);
+}
+
+export async function signToken(claims: Claims) {
+  const secret = authSecret();
+  if (!secret) throw new Error("Set AUTH_SECRET (or RESEARCHER_TOKEN) to enable sessions.");
+  const payload = toBase64url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64url(new Uint8Array(signature))}`;
+}
+
+// The token's claims when the signature is valid and it has not expired, null otherwise.
+export async function verifyToken(token: string | null | undefined): Promise<Claims | null> {
+  const secret = authSecret();
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!secret || !payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(secret),
+      fromBase64url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64url(payload))) as Claims;
+    return typeof claims.exp === "number" && claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Constant-time comparison without node:crypto, which the Edge runtime lacks.
+export function sameSecret(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// The shared token, sent as `Authorization: Bearer <token>`. Never read from the query string, which ends up in
+// access logs and Referer headers.
+export function bearerToken(req: Request) {
+  const header = req.headers.get("authorization");
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null;
+}
+
+export function hasResearcherToken(req: Request) {
+  const expected = process.env.RESEARCHER_TOKEN;
+  const token = bearerToken(req);
+  return !!expected && !!token && sameSecret(token, expected);
+}
+
+export function cookieFrom(req: Request, name: string) {
+  for (const part of req.headers.get("cookie")?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join("="));
+    } catch {
+      return null; // malformed percent-escape: no token
+    }
+  }
+  return null;
+}
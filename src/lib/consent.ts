@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import type { ConsentForm } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { ConsentFormInfo } from "@/lib/types";
+
+export const ConsentFormSchema = z.object({
+  title: z.string().min(1).max(200),
+  body: z.string().min(1).max(20000)
+});
+
+export function toConsentFormInfo(row: ConsentForm): ConsentFormInfo {
+  return { id: row.id, version: row.version, title: row.title, body: row.body, active: row.active };
+}
+
+export function getActiveConsentForm() {
+  return prisma.consentForm.findFirst({ where: { active: true }, orderBy: { version: "desc" } });
+}
+
+// Like questionnaires, consent text is never edited in place: sessions record the version they accepted.
+export async function createConsentVersion(fields: z.infer<typeof ConsentFormSchema>) {
+  const latest = await prisma.consentForm.findFirst({ orderBy: { version: "desc" } });
+  const [, row] = await prisma.$transaction([
+    prisma.consentForm.updateMany({ data: { active: false } }),
+    prisma.consentForm.create({ data: { id: uuidv4(), version: (latest?.version ?? 0) + 1, ...fields } })
+  ]);
+  return toConsentFormInfo(row);
+}
@@ -0,0 +1,76 @@
+import type { AudioMode, OrderingScheme } from "@/lib/types";
+
+export const CONDITIONS: AudioMode[] = ["tts", "emotion", "emotion_music"];
+
+// Williams design for any number of conditions: cyclic shifts of the sequence 0, 1, n-1, 2, n-2, ...
+// For an odd number of conditions the mirrored rows are added, so that every condition appears
+// equally often in every position and follows every other condition equally often. For the three
+// default conditions this gives all six orderings, rows 0-2 and rows 3-5 each a Latin square.
+export function williamsOrders(conditions: readonly AudioMode[]): AudioMode[][] {
+  const n = conditions.length;
+  const base = conditions.map((_, j) => (j % 2 === 1 ? (j + 1) / 2 : (n - j / 2) % n));
+  const rows = conditions.map((_, shift) => base.map((b) => conditions[(b + shift) % n]));
+  if (n % 2 === 0) return rows;
+  return [...rows, ...rows.map((_, i) => [...rows[(i + 1) % n]].reverse())];
+}
+
+export const CONDITION_ORDERS: AudioMode[][] = williamsOrders(CONDITIONS);
+
+// Rows a study rotates through. "random" draws a fresh permutation per stimulus instead (see sessionOrders).
+export function conditionOrders(conditions: readonly AudioMode[], ordering: OrderingScheme): AudioMode[][] {
+  switch (ordering) {
+    case "fixed":
+      return [[...conditions]];
+    case "latin_square":
+      return conditions.map((_, shift) => conditions.map((_, i) => conditions[(i + shift) % conditions.length]));
+    default:
+      return williamsOrders(conditions);
+  }
+}
+
+// Sessions are assigned rows in rotation (by creation count), so the design
+// stays balanced across participants as well as across stimuli.
+export function counterbalanceRowFor(sessionIndex: number, rows = CONDITION_ORDERS.length) {
+  return sessionIndex % rows;
+}
+
+// Each successive stimulus within a session moves one row down the design.
+export function conditionOrderFor(counterbalanceRow: number, stimulusPosition: number, design = CONDITION_ORDERS) {
+  return design[(counterbalanceRow + stimulusPosition) % design.length];
+}
+
+export function shuffled<T>(items: readonly T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Condition orders for a new session of a study. counterbalanceRow is null for "random" studies,
+// which keeps them out of the rotation count.
+export function sessionOrders(
+  study: { conditions: AudioMode[]; ordering: OrderingScheme },
+  sessionIndex: number,
+  stimulusCount: number
+): { counterbalanceRow: number | null; orders: AudioMode[][] } {
+  if (study.ordering === "random") {
+    return { counterbalanceRow: null, orders: Array.from({ length: stimulusCount }, () => shuffled(study.conditions)) };
+  }
+  const design = conditionOrders(study.conditions, study.ordering);
+  const counterbalanceRow = counterbalanceRowFor(sessionIndex, design.length);
+  return {
+    counterbalanceRow,
+    orders: Array.from({ length: stimulusCount }, (_, position) => conditionOrderFor(counterbalanceRow, position, design))
+  };
+}
+
+// Conditions of an assignment row in presentation order (conditionC is empty in two-condition studies).
+export function assignedOrder(a: { conditionA: string; conditionB: string; conditionC: string | null }) {
+  return [a.conditionA, a.conditionB, a.conditionC].filter((c): c is AudioMode => c != null);
+}
+
+export function isSameOrder(a: readonly string[], b: readonly string[]) {
+  return a.length === b.length && a.every((c, i) => c === b[i]);
+}
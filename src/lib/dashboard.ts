@@ -0,0 +1,133 @@
+import type { Prisma } from "@prisma/client";
+import { assignedOrder, CONDITION_ORDERS, CONDITIONS } from "@/lib/counterbalance";
+import { getPlaybackMetrics, playbackMetricsKey } from "@/lib/playback";
+import { prisma } from "@/lib/prisma";
+import { describe, histogram, type Descriptives } from "@/lib/stats";
+import { RATING_MEASURES, SESSION_STATUSES, type AudioMode, type RatingKey, type SessionStatus } from "@/lib/types";
+
+// Aggregates behind the /researcher dashboard (see /api/researcher/*).
+
+export type DashboardFilters = { stimulusId?: string; studyId?: string };
+
+const responseWhere = (filters: DashboardFilters): Prisma.ConditionResponseWhereInput => ({
+  ...(filters.stimulusId ? { stimulusId: filters.stimulusId } : {}),
+  ...(filters.studyId ? { session: { studyId: filters.studyId } } : {})
+});
+
+const byCondition = <T>(make: (c: AudioMode) => T) =>
+  Object.fromEntries(CONDITIONS.map((c) => [c, make(c)])) as Record<AudioMode, T>;
+
+// A session is complete once every assigned stimulus has a response for each of its conditions.
+export async function getOverview(filters: Pick<DashboardFilters, "studyId"> = {}) {
+  const [sessions, stimuli] = await Promise.all([
+    prisma.studySession.findMany({
+      where: filters.studyId ? { studyId: filters.studyId } : {},
+      select: {
+        createdAt: true,
+        status: true,
+        counterbalanceRow: true,
+        assignments: { select: { stimulusKey: true, conditionA: true, conditionB: true, conditionC: true } },
+        responses: { select: { stimulusKey: true, condition: true } }
+      }
+    }),
+    prisma.stimulus.findMany({ select: { id: true, title: true } })
+  ]);
+  const titleOf = new Map(stimuli.map((s) => [s.id, s.title]));
+
+  let withResponses = 0;
+  let completed = 0;
+  const byStatus = Object.fromEntries(SESSION_STATUSES.map((s) => [s, 0])) as Record<SessionStatus, number>;
+  const perDay = new Map<string, { started: number; completed: number }>();
+  // Sessions per design row (six for the default Williams design; other schemes use fewer).
+  const rows = Array.from({ length: CONDITION_ORDERS.length }, () => 0);
+  // How often each condition was assigned to each position: balance check for the Williams design.
+  const positions = byCondition(() => [0, 0, 0]);
+  const perStimulus = new Map<string, { assigned: number; responses: Record<AudioMode, number> }>();
+  const stimulusEntry = (key: string) => {
+    if (!perStimulus.has(key)) perStimulus.set(key, { assigned: 0, responses: byCondition(() => 0) });
+    return perStimulus.get(key)!;
+  };
+
+  for (const s of sessions) {
+    const answered = new Set(s.responses.map((r) => `${r.stimulusKey}|${r.condition}`));
+    const isComplete =
+      s.assignments.length > 0 &&
+      s.assignments.every((a) => assignedOrder(a).every((c) => answered.has(`${a.stimulusKey}|${c}`)));
+    if (s.responses.length) withResponses++;
+    if (isComplete) completed++;
+    if (s.status in byStatus) byStatus[s.status as SessionStatus]++;
+
+    const day = s.createdAt.toISOString().slice(0, 10);
+    const d = perDay.get(day) ?? { started: 0, completed: 0 };
+    d.started++;
+    if (isComplete) d.completed++;
+    perDay.set(day, d);
+
+    if (s.counterbalanceRow != null) rows[s.counterbalanceRow] = (rows[s.counterbalanceRow] ?? 0) + 1;
+    for (const a of s.assignments) {
+      stimulusEntry(a.stimulusKey).assigned++;
+      assignedOrder(a).forEach((c, i) => {
+        if (c in positions) positions[c][i]++;
+      });
+    }
+    for (const r of s.responses) {
+      const entry = stimulusEntry(r.stimulusKey).responses;
+      if (r.condition in entry) entry[r.condition as AudioMode]++;
+    }
+  }
+
+  return {
+    sessions: { started: sessions.length, withResponses, completed, byStatus },
+    sessionsByDay: [...perDay].map(([date, d]) => ({ date, ...d })).sort((a, b) => a.date.localeCompare(b.date)),
+    counterbalanceRows: rows,
+    conditionPositions: positions,
+    stimuli: [...perStimulus]
+      .map(([stimulusKey, e]) => ({ stimulusKey, title: titleOf.get(stimulusKey) ?? null, ...e }))
+      .sort((a, b) => a.stimulusKey.localeCompare(b.stimulusKey))
+  };
+}
+
+export type RatingSummary = Record<AudioMode, Record<RatingKey, Descriptives & { distribution: number[] }>>;
+
+// Descriptives and the 1-7 distribution of every Likert item, per condition.
+export async function getRatingSummary(filters: DashboardFilters = {}): Promise<RatingSummary> {
+  const responses = await prisma.conditionResponse.findMany({ where: responseWhere(filters) });
+
+  return byCondition((condition) => {
+    const rows = responses.filter((r) => r.condition === condition);
+    return Object.fromEntries(
+      RATING_MEASURES.map(({ key }) => {
+        const values = rows.map((r) => r[key]).filter((v): v is number => v != null);
+        return [key, { ...describe(values), distribution: histogram(values, 1, 7) }];
+      })
+    ) as Record<RatingKey, Descriptives & { distribution: number[] }>;
+  });
+}
+
+// Listening time (seconds) and completion per rated condition, plus data-quality flags.
+export async function getListeningSummary(filters: DashboardFilters = {}) {
+  const [responses, metrics] = await Promise.all([
+    prisma.conditionResponse.findMany({
+      where: responseWhere(filters),
+      select: { sessionId: true, stimulusKey: true, condition: true }
+    }),
+    getPlaybackMetrics({
+      ...(filters.stimulusId ? { stimulusId: filters.stimulusId } : {}),
+      ...(filters.studyId ? { session: { studyId: filters.studyId } } : {})
+    })
+  ]);
+  const metricsByKey = new Map(metrics.map((m) => [playbackMetricsKey(m), m]));
+
+  return byCondition((condition) => {
+    const rated = responses.filter((r) => r.condition === condition).map((r) => metricsByKey.get(playbackMetricsKey(r)));
+    const played = rated.filter((m) => m && m.plays > 0);
+    return {
+      rated: rated.length,
+      listeningSeconds: describe(played.map((m) => m!.listeningMs / 1000)),
+      completionRatio: describe(played.map((m) => m!.completionRatio ?? 0)),
+      // Rated without ever starting playback / without reaching 90% of the audio.
+      ratedWithoutPlayback: rated.length - played.length,
+      ratedBelow90Percent: played.filter((m) => (m!.completionRatio ?? 0) < 0.9).length
+    };
+  });
+}
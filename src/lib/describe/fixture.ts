@@ -0,0 +1,33 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { sha256Hex } from "@/lib/storage";
+import { DescribeConfigError, parseDescribeOutput, type DescriptionProvider } from "@/lib/describe/types";
+
+// Offline stand-in: returns a stored description for the image instead of calling a model.
+// Fixtures live in DESCRIPTION_FIXTURES_DIR as `<sha256>.json` (a DescribeResult), where the hash is
+// taken over the image bytes (same as StoredImage.sha256) or, for remote URLs, over the URL string.
+// `default.json`, if present, answers for images without their own fixture.
+export const DESCRIPTION_FIXTURES_DIR = path.resolve(process.env.DESCRIPTION_FIXTURES_DIR ?? "fixtures/descriptions");
+
+export function fixtureKeyFor(imageInput: string) {
+  const match = /^data:[^;,]+;base64,(.*)$/s.exec(imageInput);
+  return sha256Hex(match ? Buffer.from(match[1], "base64") : imageInput);
+}
+
+async function readFixture(name: string) {
+  return readFile(path.join(DESCRIPTION_FIXTURES_DIR, `${name}.json`), "utf8").catch(() => null);
+}
+
+export const fixtureDescriptionProvider: DescriptionProvider = {
+  id: "fixture",
+  label: "Stored fixtures (offline)",
+  promptVersion: "fixture",
+  async describe({ imageInput }) {
+    const key = fixtureKeyFor(imageInput);
+    const raw = (await readFixture(key)) ?? (await readFixture("default"));
+    if (raw === null) {
+      throw new DescribeConfigError(`No description fixture for image ${key} (looked in ${DESCRIPTION_FIXTURES_DIR}).`);
+    }
+    return { result: parseDescribeOutput(raw), usage: null };
+  }
+};
@@ -0,0 +1,34 @@
+import { fixtureDescriptionProvider } from "@/lib/describe/fixture";
+import { openaiDescriptionProvider } from "@/lib/describe/openai";
+import { DescribeConfigError, type DescriptionProvider } from "@/lib/describe/types";
+
+export * from "@/lib/describe/types";
+
+export const DESCRIPTION_PROVIDERS: Record<string, DescriptionProvider> = {
+  openai: openaiDescriptionProvider,
+  fixture: fixtureDescriptionProvider
+};
+
+// Vision models a study may choose between; anything else is rejected before an API call.
+export const DESCRIBE_MODELS = ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"] as const;
+export type DescribeModel = (typeof DESCRIBE_MODELS)[number];
+
+export type DescribeConfig = { provider: DescriptionProvider; model: string };
+
+// DESCRIBE_PROVIDER (openai | fixture) and DESCRIBE_MODEL set the defaults; a study can override the model.
+export function getDescribeConfig(overrides: { model?: string } = {}): DescribeConfig {
+  const id = (process.env.DESCRIBE_PROVIDER || "openai").trim().toLowerCase();
+  const provider = DESCRIPTION_PROVIDERS[id];
+  if (!provider) {
+    throw new DescribeConfigError(
+      `Unknown description provider "${id}". Expected one of: ${Object.keys(DESCRIPTION_PROVIDERS).join(", ")}.`
+    );
+  }
+
+  const model = overrides.model || process.env.DESCRIBE_MODEL?.trim() || "gpt-4o-mini";
+  if (!(DESCRIBE_MODELS as readonly string[]).includes(model)) {
+    throw new DescribeConfigError(`Unsupported description model "${model}". Expected one of: ${DESCRIBE_MODELS.join(", ")}.`);
+  }
+  // Fixtures are model-independent; record that on the Description row instead of a model that was never called.
+  return { provider, model: provider.id === "fixture" ? "fixture" : model };
+}
@@ -0,0 +1,64 @@
+import { APIError } from "openai";
+import { getOpenAIClient } from "@/lib/openai";
+import {
+  DescribeConfigError,
+  DescribeProviderError,
+  parseDescribeOutput,
+  type DescribeUsage,
+  type DescriptionProvider
+} from "@/lib/describe/types";
+
+// Bump whenever buildPrompt() changes, so stored descriptions can be traced to the prompt that produced them.
+export const PROMPT_VERSION = "describe-v1";
+
+function buildPrompt(accessibilityFocus: boolean) {
+  return [
+    "Task: describe the visual artwork in a way that is useful for a blind or sighted participant.",
+    "Output MUST be valid JSON with keys:",
+    "  description: string (2-4 sentences, concrete, neutral, no speculation).",
+    "  styleHints: array of 3-6 short phrases describing style-related qualities (e.g., color palette, brushwork, mood, composition, era cues).",
+    "  safetyNotes: optional string if there is potentially sensitive content.",
+    "Avoid guessing the artist or title unless it is obvious from visible text.",
+    accessibilityFocus ? "Prioritize non-visual sensory metaphors only when grounded in the image." : ""
+  ].filter(Boolean).join("\n");
+}
+
+export const openaiDescriptionProvider: DescriptionProvider = {
+  id: "openai",
+  label: "OpenAI vision (Responses API)",
+  promptVersion: PROMPT_VERSION,
+  async describe({ imageInput, accessibilityFocus, model }) {
+    let openai;
+    try {
+      openai = getOpenAIClient();
+    } catch (e: any) {
+      throw new DescribeConfigError(e.message);
+    }
+
+    let outputText: string;
+    let usage: DescribeUsage | null = null;
+    try {
+      // Using Responses API image input format.
+      const response = await openai.responses.create({
+        model,
+        input: [{
+          role: "user",
+          content: [
+            { type: "input_text", text: buildPrompt(accessibilityFocus) },
+            { type: "input_image", image_url: imageInput, detail: "auto" }
+          ]
+        }],
+        text: { format: { type: "json_object" } }
+      });
+      outputText = response.output_text;
+      if (response.usage) {
+        usage = { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens };
+      }
+    } catch (e) {
+      if (e instanceof APIError) throw new DescribeProviderError(`OpenAI describe failed (${e.status ?? "network"}): ${e.message}`);
+      throw e;
+    }
+
+    return { result: parseDescribeOutput(outputText, usage), usage };
+  }
+};
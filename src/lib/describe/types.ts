@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { DescribeResult } from "@/lib/types";
+
+export type DescribeRequest = {
+  imageInput: string; // https URL or data: URL
+  accessibilityFocus: boolean;
+  model: string;
+};
+
+// Token counts reported by the provider, recorded in the usage ledger; null for providers that do not call a model.
+export type DescribeUsage = { inputTokens: number; outputTokens: number };
+
+export type DescribeOutput = { result: DescribeResult; usage: DescribeUsage | null };
+
+export interface DescriptionProvider {
+  id: string; // "openai" | "fixture"
+  label: string;
+  // Recorded on every Description row next to the model.
+  promptVersion: string;
+  describe(req: DescribeRequest): Promise<DescribeOutput>;
+}
+
+// What a provider must return; checked before anything is stored.
+export const DescribeResultSchema = z.object({
+  description: z.string().trim().min(1),
+  styleHints: z.array(z.string().trim().min(1)).max(12),
+  // Models tend to emit null for "no notes"; treat it as absent.
+  safetyNotes: z
+    .string()
+    .nullish()
+    .transform((v) => v?.trim() || undefined)
+}) satisfies z.ZodType<DescribeResult, z.ZodTypeDef, unknown>;
+
+// Provider is not configured (missing key, unknown model, missing fixture); maps to HTTP 500.
+export class DescribeConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DescribeConfigError";
+  }
+}
+
+// Upstream call failed; maps to HTTP 502.
+export class DescribeProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DescribeProviderError";
+  }
+}
+
+// Provider answered, but not with a valid DescribeResult; maps to HTTP 502. The call was still paid for, so it
+// carries the provider's usage for the ledger.
+export class DescribeOutputError extends Error {
+  constructor(
+    message: string,
+    readonly raw: string,
+    readonly usage: DescribeUsage | null = null
+  ) {
+    super(message);
+    this.name = "DescribeOutputError";
+  }
+}
+
+// Parse and validate raw provider output (a JSON string); `usage` is the call's usage, kept on any error.
+export function parseDescribeOutput(raw: string, usage: DescribeUsage | null = null): DescribeResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new DescribeOutputError("Description model returned malformed JSON", raw, usage);
+  }
+  const parsed = DescribeResultSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new DescribeOutputError(`Description model returned an unexpected shape (${issues})`, raw, usage);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,59 @@
+import type { Description } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { getDescribeConfig } from "@/lib/describe";
+import { prisma } from "@/lib/prisma";
+import { parseStringList } from "@/lib/stimuli";
+import type { DescribeResponse, DescribeResult } from "@/lib/types";
+import { describeMetered, type UsageContext } from "@/lib/usage";
+
+export type GeneratedDescription = { result: DescribeResult; model: string; promptVersion: string };
+
+// imageInput is an https URL or a data: URL. The provider and default model come from the environment
+// (see getDescribeConfig); `model` is a study's own vision model (Study.describeModel). The call is recorded in the
+// usage ledger under `usage`, and rate limited when `usage.limited` is set.
+export async function describeImage(
+  imageInput: string,
+  accessibilityFocus: boolean,
+  usage: UsageContext,
+  opts: { model?: string } = {}
+): Promise<GeneratedDescription> {
+  const { provider, model } = getDescribeConfig(opts);
+  const output = await describeMetered(usage, { provider: provider.id, model }, () =>
+    provider.describe({ imageInput, accessibilityFocus, model })
+  );
+  return { result: output.result, model, promptVersion: provider.promptVersion };
+}
+
+// Keep every generation so we can reconstruct exactly what each participant heard.
+export async function saveDescription(opts: {
+  generated: GeneratedDescription;
+  accessibilityFocus: boolean;
+  sessionId?: string;
+  stimulusId?: string;
+  storedImageId?: string;
+  imageUrl?: string;
+}) {
+  const { generated, accessibilityFocus, ...source } = opts;
+  const { result, model, promptVersion } = generated;
+  return prisma.description.create({
+    data: {
+      id: uuidv4(),
+      ...source,
+      text: result.description,
+      styleHints: JSON.stringify(result.styleHints),
+      safetyNotes: result.safetyNotes,
+      model,
+      promptVersion,
+      accessibilityFocus
+    }
+  });
+}
+
+export function toDescribeResponse(row: Description): DescribeResponse {
+  return {
+    descriptionId: row.id,
+    description: row.text,
+    styleHints: parseStringList(row.styleHints),
+    ...(row.safetyNotes ? { safetyNotes: row.safetyNotes } : {})
+  };
+}
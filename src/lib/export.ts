@@ -0,0 +1,550 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { computePlaybackMetrics, playbackMetricsKey } from "@/lib/playback";
+import { conditionResponseColumn, scoredValue, toQuestionnaireItemInfo } from "@/lib/questionnaires";
+import { parseStringList } from "@/lib/stimuli";
+import { RATING_MEASURES, SESSION_STATUSES, type SessionStatus } from "@/lib/types";
+
+// Research data export (see /api/export). Column names are snake_case so the CSVs load
+// cleanly into R / SPSS; every column is documented in CODEBOOK.
+
+export type ExportFilters = {
+  from?: Date; // sessions created at or after
+  to?: Date; // sessions created before (see DateUntilSchema)
+  participantId?: string;
+  stimulusId?: string;
+  studyId?: string;
+  source?: "participant" | "workbench"; // session source; both when omitted
+  statuses?: SessionStatus[]; // session statuses; all when omitted
+};
+
+// The `to` query filter, used as `createdAt < to`. A date-only value (2026-02-01) means
+// up to and including that day (UTC), so it becomes the start of the next day; a full timestamp is used as given.
+export const DateUntilSchema = z.string().transform((value, ctx) => {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.invalid_date });
+    return z.NEVER;
+  }
+  if (dateOnly) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+});
+
+type Cell = string | number | boolean | null;
+type ExportRow = Record<string, Cell>;
+
+type ColumnDoc = {
+  name: string;
+  type: "string" | "integer" | "number" | "datetime" | "boolean";
+  description: string;
+  values?: string; // allowed values or range
+};
+
+const LIKERT = "1-7 (1 = low, 7 = high); empty if not answered";
+const CONDITION_VALUES = "tts = plain TTS, emotion = emotional intonation, emotion_music = emotional intonation + music";
+
+const listeningColumns: ColumnDoc[] = [
+  {
+    name: "listening_ms",
+    type: "integer",
+    description: "Total time the condition's audio was playing (from playback events); 0 if never played"
+  },
+  {
+    name: "completion_ratio",
+    type: "number",
+    description: "Furthest point of the audio reached, as a fraction of its length; empty if never played",
+    values: "0-1"
+  }
+];
+
+const participantColumn: ColumnDoc = {
+  name: "participant_id",
+  type: "string",
+  description: "Participant identifier; the session id when no participant id was recorded"
+};
+
+const stimulusColumns: ColumnDoc[] = [
+  { name: "stimulus_key", type: "string", description: "Catalog stimulus id, or \"upload\" for a participant-supplied image" },
+  { name: "stimulus_id", type: "string", description: "Catalog stimulus id; empty for uploads" },
+  { name: "stimulus_title", type: "string", description: "Catalog title of the stimulus; empty for uploads" },
+  { name: "stimulus_position", type: "integer", description: "0-based order in which the stimulus was shown in the session" }
+];
+
+export const EXPORT_TABLES = [
+  "sessions",
+  "responses",
+  "trials",
+  "descriptions",
+  "playback_events",
+  "playback_metrics",
+  "item_responses",
+  "questionnaire_items",
+  "long"
+] as const;
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+export const CODEBOOK: Record<ExportTable, ColumnDoc[]> = {
+  sessions: [
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "study_id", type: "string", description: "Study the session belongs to" },
+    { name: "study_slug", type: "string", description: "The study's link name (/study?study=<slug>)" },
+    { name: "created_at", type: "datetime", description: "Session start (ISO 8601, UTC)" },
+    { name: "external_study_id", type: "string", description: "Recruitment panel's study id (from the entry URL)" },
+    { name: "external_session_id", type: "string", description: "Recruitment panel's session id (from the entry URL)" },
+    { name: "session_source", type: "string", description: "Who started the session", values: "participant, workbench" },
+    { name: "status", type: "string", description: "Session outcome", values: SESSION_STATUSES.join(", ") },
+    { name: "ended_at", type: "datetime", description: "When the session was completed, screened out or timed out (ISO 8601, UTC)" },
+    { name: "end_reason", type: "string", description: "Why the session ended early, e.g. consent_declined, timeout" },
+    { name: "completion_code", type: "string", description: "Completion code given to the participant" },
+    { name: "user_agent", type: "string", description: "Browser user agent" },
+    { name: "locale", type: "string", description: "Browser locale" },
+    {
+      name: "consent_version",
+      type: "integer",
+      description: "Version of the consent form accepted; empty for sessions from before consent was recorded"
+    },
+    { name: "consented_at", type: "datetime", description: "When consent was given (ISO 8601, UTC)" },
+    {
+      name: "counterbalance_row",
+      type: "integer",
+      description: "Row of the study's ordering design used for the session; empty for pilot sessions and random orders",
+      values: "0-5 for the default three-condition Williams design"
+    },
+    { name: "image_source_type", type: "string", description: "Source of the last image described", values: "url, upload" },
+    { name: "image_source", type: "string", description: "URL, or stored file path for uploads" },
+    { name: "n_stimuli", type: "integer", description: "Number of stimuli assigned in the session" },
+    { name: "n_responses", type: "integer", description: "Number of condition responses submitted" }
+  ],
+  responses: [
+    { name: "response_id", type: "string", description: "Condition response id" },
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "created_at", type: "datetime", description: "First submission (ISO 8601, UTC)" },
+    { name: "updated_at", type: "datetime", description: "Last re-submission (ISO 8601, UTC)" },
+    ...stimulusColumns,
+    { name: "condition", type: "string", description: "Audio condition rated", values: CONDITION_VALUES },
+    { name: "condition_position", type: "integer", description: "0-based position of the condition in the assigned order", values: "0-2 (0-1 in two-condition studies)" },
+    { name: "description_id", type: "string", description: "Description that was spoken (see descriptions table)" },
+    ...RATING_MEASURES.map((m): ColumnDoc => ({
+      name: `rating_${m.name}`,
+      type: "integer",
+      description: m.question,
+      values: LIKERT
+    })),
+    { name: "free_text", type: "string", description: "Optional free-text comment" },
+    ...listeningColumns
+  ],
+  trials: [
+    { name: "trial_id", type: "string", description: "Legacy pilot trial id (superseded by responses)" },
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "created_at", type: "datetime", description: "Submission time (ISO 8601, UTC)" },
+    { name: "stimulus_key", type: "string", description: "Stimulus key; empty for pilot trials" },
+    { name: "condition_a", type: "string", description: "First condition played", values: CONDITION_VALUES },
+    { name: "condition_b", type: "string", description: "Second condition played", values: CONDITION_VALUES },
+    { name: "condition_c", type: "string", description: "Third condition played", values: CONDITION_VALUES },
+    ...RATING_MEASURES.map((m): ColumnDoc => ({
+      name: `rating_${m.name}`,
+      type: "integer",
+      description: `${m.question} (one rating for all conditions)`,
+      values: LIKERT
+    })),
+    { name: "free_text", type: "string", description: "Optional free-text comment" }
+  ],
+  descriptions: [
+    { name: "description_id", type: "string", description: "Description id" },
+    { name: "created_at", type: "datetime", description: "Generation time (ISO 8601, UTC)" },
+    { name: "session_id", type: "string", description: "Session that requested it; empty for researcher-generated descriptions" },
+    { name: "stimulus_id", type: "string", description: "Catalog stimulus described" },
+    { name: "stored_image_id", type: "string", description: "Uploaded image described" },
+    { name: "image_url", type: "string", description: "Remote image URL described" },
+    { name: "model", type: "string", description: "Vision model (or \"fixture\")" },
+    { name: "prompt_version", type: "string", description: "Version of the description prompt" },
+    { name: "accessibility_focus", type: "boolean", description: "Whether the accessibility-focused prompt was used" },
+    { name: "text", type: "string", description: "Description text that is spoken" },
+    { name: "style_hints", type: "string", description: "Style hints, separated by \"; \"" },
+    { name: "safety_notes", type: "string", description: "Content warnings from the model" }
+  ],
+  playback_events: [
+    { name: "event_id", type: "string", description: "Playback event id" },
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "stimulus_key", type: "string", description: "Stimulus the player belonged to" },
+    { name: "stimulus_id", type: "string", description: "Catalog stimulus id; empty for uploads" },
+    { name: "condition", type: "string", description: "Audio condition", values: CONDITION_VALUES },
+    {
+      name: "type",
+      type: "string",
+      description: "Event",
+      values: "play, pause, seek, ended, generate, regenerate, music_on, music_off, speech_start, speech_boundary, speech_end, speech_cancel"
+    },
+    { name: "client_ts", type: "datetime", description: "Participant's clock at the event (ISO 8601, UTC)" },
+    { name: "server_ts", type: "datetime", description: "When the server received the event (ISO 8601, UTC)" },
+    { name: "seq", type: "integer", description: "Per-page event counter; orders events with equal client_ts" },
+    { name: "source", type: "string", description: "What was playing", values: "system = browser speechSynthesis, generated, frozen = approved pack" },
+    { name: "position_ms", type: "integer", description: "Audio position at the event" },
+    { name: "duration_ms", type: "integer", description: "Audio duration, when known" },
+    { name: "char_index", type: "integer", description: "speechSynthesis: end of the last spoken word (characters)" },
+    { name: "char_length", type: "integer", description: "speechSynthesis: length of the spoken text (characters)" }
+  ],
+  playback_metrics: [
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "stimulus_key", type: "string", description: "Stimulus key" },
+    { name: "condition", type: "string", description: "Audio condition", values: CONDITION_VALUES },
+    ...listeningColumns,
+    { name: "plays", type: "integer", description: "Number of play / speech starts" },
+    { name: "pauses", type: "integer", description: "Number of pauses (excluding the automatic one at the end)" },
+    { name: "seeks", type: "integer", description: "Number of seeks" },
+    { name: "ended", type: "integer", description: "Number of times playback reached the end" },
+    { name: "regenerations", type: "integer", description: "Number of times the audio was regenerated" },
+    { name: "music_on_ms", type: "integer", description: "Time the music bed was on (emotion_music only)" }
+  ],
+  item_responses: [
+    { name: "item_response_id", type: "string", description: "Questionnaire answer id" },
+    { name: "session_id", type: "string", description: "Study session id" },
+    participantColumn,
+    { name: "created_at", type: "datetime", description: "First submission (ISO 8601, UTC)" },
+    { name: "updated_at", type: "datetime", description: "Last re-submission (ISO 8601, UTC)" },
+    { name: "questionnaire_key", type: "string", description: "Questionnaire (see questionnaire_items)" },
+    { name: "questionnaire_version", type: "integer", description: "Version of the questionnaire that was answered" },
+    { name: "item_key", type: "string", description: "Item code" },
+    {
+      name: "item_type",
+      type: "string",
+      description: "Item type",
+      values: "likert, semantic_differential, slider, multiple_choice, free_text"
+    },
+    {
+      name: "stimulus_key",
+      type: "string",
+      description: "Stimulus the answer is about; empty for session questionnaires such as background (demographics)"
+    },
+    { name: "condition", type: "string", description: "Condition the answer is about; empty unless asked per condition", values: CONDITION_VALUES },
+    { name: "value", type: "number", description: "Answer to a scale item, as given; empty for other item types" },
+    { name: "scored_value", type: "number", description: "value after reverse scoring (min + max - value for reverse-scored items)" },
+    { name: "text", type: "string", description: "Free text, or the chosen option value(s) of a multiple-choice item (\"; \"-separated)" }
+  ],
+  questionnaire_items: [
+    { name: "questionnaire_key", type: "string", description: "Questionnaire key" },
+    { name: "questionnaire_version", type: "integer", description: "Questionnaire version" },
+    { name: "questionnaire_title", type: "string", description: "Title shown to participants" },
+    { name: "scope", type: "string", description: "How often it is asked", values: "condition, stimulus, session" },
+    { name: "active", type: "boolean", description: "Whether this version is currently shown" },
+    { name: "position", type: "integer", description: "0-based order of the item" },
+    { name: "item_key", type: "string", description: "Item code" },
+    { name: "item_type", type: "string", description: "Item type" },
+    { name: "text", type: "string", description: "Item wording" },
+    { name: "min", type: "number", description: "Lowest scale value" },
+    { name: "max", type: "number", description: "Highest scale value" },
+    { name: "anchors", type: "string", description: "Labelled scale points, as \"value = label\" separated by \"; \"" },
+    { name: "options", type: "string", description: "Multiple-choice options, as \"value = label\" separated by \"; \"" },
+    { name: "required", type: "boolean", description: "Whether an answer was required" },
+    { name: "reverse_scored", type: "boolean", description: "Whether scored_value is reversed" }
+  ],
+  long: [
+    participantColumn,
+    { name: "session_id", type: "string", description: "Study session id" },
+    { name: "study_id", type: "string", description: "Study the session belongs to" },
+    {
+      name: "counterbalance_row",
+      type: "integer",
+      description: "Row of the study's ordering design used for the session; empty for random orders",
+      values: "0-5 for the default three-condition Williams design"
+    },
+    ...stimulusColumns,
+    { name: "condition", type: "string", description: "Audio condition", values: CONDITION_VALUES },
+    { name: "condition_position", type: "integer", description: "0-based position of the condition in the assigned order", values: "0-2 (0-1 in two-condition studies)" },
+    { name: "description_id", type: "string", description: "Description that was spoken" },
+    ...listeningColumns,
+    {
+      name: "measure",
+      type: "string",
+      description:
+        "Rating item: the rating_* columns of the responses table, then further scale items of per-condition questionnaires (item_key in questionnaire_items)",
+      values: RATING_MEASURES.map((m) => m.name).join(", ") + ", ..."
+    },
+    {
+      name: "value",
+      type: "number",
+      description: "Rating, reverse-scored where the item says so; unanswered items are omitted",
+      values: "Item range (rating_* items: 1-7, 1 = low, 7 = high)"
+    }
+  ]
+};
+
+function sessionWhere(filters: ExportFilters): Prisma.StudySessionWhereInput {
+  return {
+    ...(filters.from || filters.to ? { createdAt: { gte: filters.from, lt: filters.to } } : {}),
+    ...(filters.participantId ? { participantId: filters.participantId } : {}),
+    ...(filters.studyId ? { studyId: filters.studyId } : {}),
+    ...(filters.source ? { source: filters.source } : {}),
+    ...(filters.statuses ? { status: { in: filters.statuses } } : {}),
+    ...(filters.stimulusId ? { assignments: { some: { stimulusId: filters.stimulusId } } } : {})
+  };
+}
+
+const iso = (d: Date | null | undefined) => d?.toISOString() ?? null;
+
+export async function buildExport(filters: ExportFilters): Promise<Record<ExportTable, ExportRow[]>> {
+  const where = sessionWhere(filters);
+  const sessions = await prisma.studySession.findMany({
+    where,
+    include: { assignments: true, consentForm: true, study: true, _count: { select: { responses: true } } },
+    orderBy: { createdAt: "asc" }
+  });
+  const sessionById = new Map(sessions.map((s) => [s.id, s]));
+  const sessionIds = sessions.map((s) => s.id);
+  const participantOf = (sessionId: string) => sessionById.get(sessionId)?.participantId ?? sessionId;
+  const stimulusFilter = filters.stimulusId ? { stimulusId: filters.stimulusId } : {};
+
+  const [responses, trials, descriptions, events, itemResponses, questionnaires] = await Promise.all([
+    prisma.conditionResponse.findMany({
+      where: { sessionId: { in: sessionIds }, ...stimulusFilter },
+      include: { stimulus: true },
+      orderBy: [{ sessionId: "asc" }, { createdAt: "asc" }]
+    }),
+    filters.stimulusId
+      ? Promise.resolve([])
+      : prisma.trial.findMany({ where: { sessionId: { in: sessionIds } }, orderBy: { createdAt: "asc" } }),
+    prisma.description.findMany({
+      where: {
+        ...stimulusFilter,
+        // Researcher-generated descriptions (no session) are included unless filtering by participant.
+        OR: [{ sessionId: { in: sessionIds } }, ...(filters.participantId ? [] : [{ sessionId: null }])]
+      },
+      orderBy: { createdAt: "asc" }
+    }),
+    prisma.playbackEvent.findMany({
+      where: { sessionId: { in: sessionIds }, ...stimulusFilter },
+      orderBy: [{ sessionId: "asc" }, { clientTs: "asc" }, { seq: "asc" }]
+    }),
+    prisma.itemResponse.findMany({
+      where: { sessionId: { in: sessionIds }, ...(filters.stimulusId ? { stimulusKey: filters.stimulusId } : {}) },
+      include: { item: { include: { questionnaire: true } } },
+      orderBy: [{ sessionId: "asc" }, { createdAt: "asc" }]
+    }),
+    prisma.questionnaire.findMany({
+      include: { items: { orderBy: { position: "asc" } } },
+      orderBy: [{ key: "asc" }, { version: "asc" }]
+    })
+  ]);
+
+  const metrics = computePlaybackMetrics(events);
+  const metricsByKey = new Map(metrics.map((m) => [playbackMetricsKey(m), m]));
+
+  const responseRows = responses.map((r) => {
+    const assignment = sessionById.get(r.sessionId)?.assignments.find((a) => a.stimulusKey === r.stimulusKey);
+    const listening = metricsByKey.get(playbackMetricsKey(r));
+    return {
+      response_id: r.id,
+      session_id: r.sessionId,
+      participant_id: participantOf(r.sessionId),
+      created_at: iso(r.createdAt),
+      updated_at: iso(r.updatedAt),
+      stimulus_key: r.stimulusKey,
+      stimulus_id: r.stimulusId,
+      stimulus_title: r.stimulus?.title ?? null,
+      stimulus_position: assignment?.position ?? null,
+      condition: r.condition,
+      condition_position: r.position,
+      description_id: r.descriptionId,
+      rating_style_comprehension: r.ratingStyleComprehension,
+      rating_emotional_fit: r.ratingEmotionalFit,
+      rating_enjoyment: r.ratingEnjoyment,
+      free_text: r.freeText,
+      listening_ms: listening?.listeningMs ?? 0,
+      completion_ratio: listening?.completionRatio ?? null
+    };
+  });
+
+  const responseRowByKey = new Map(responseRows.map((r) => [`${r.session_id}|${r.stimulus_key}|${r.condition}`, r]));
+  // Per-condition scale items beyond the rating measures, which responseRows already carry.
+  const extraMeasures = itemResponses.flatMap((a) => {
+    const row = responseRowByKey.get(`${a.sessionId}|${a.stimulusKey}|${a.condition}`);
+    if (!row || a.value == null || conditionResponseColumn(a.item)) return [];
+    return [{ row, measure: a.item.key, value: scoredValue(a.item, a.value) }];
+  });
+  const longRow = (r: (typeof responseRows)[number], measure: string, value: Cell) => ({
+    participant_id: r.participant_id,
+    session_id: r.session_id,
+    study_id: sessionById.get(r.session_id)?.studyId ?? null,
+    counterbalance_row: sessionById.get(r.session_id)?.counterbalanceRow ?? null,
+    stimulus_key: r.stimulus_key,
+    stimulus_id: r.stimulus_id,
+    stimulus_title: r.stimulus_title,
+    stimulus_position: r.stimulus_position,
+    condition: r.condition,
+    condition_position: r.condition_position,
+    description_id: r.description_id,
+    listening_ms: r.listening_ms,
+    completion_ratio: r.completion_ratio,
+    measure,
+    value
+  });
+  const labelled = (list: { value: Cell; label: string }[]) => list.map((x) => `${x.value} = ${x.label}`).join("; ");
+
+  return {
+    sessions: sessions.map((s) => ({
+      session_id: s.id,
+      participant_id: s.participantId ?? s.id,
+      study_id: s.studyId,
+      study_slug: s.study.slug,
+      created_at: iso(s.createdAt),
+      external_study_id: s.externalStudyId,
+      external_session_id: s.externalSessionId,
+      session_source: s.source,
+      status: s.status,
+      ended_at: iso(s.endedAt),
+      end_reason: s.endReason,
+      completion_code: s.completionCode,
+      user_agent: s.userAgent,
+      locale: s.locale,
+      consent_version: s.consentForm?.version ?? null,
+      consented_at: iso(s.consentedAt),
+      counterbalance_row: s.counterbalanceRow,
+      image_source_type: s.imageSourceType,
+      image_source: s.imageSource,
+      n_stimuli: s.assignments.length,
+      n_responses: s._count.responses
+    })),
+    responses: responseRows,
+    trials: trials.map((t) => ({
+      trial_id: t.id,
+      session_id: t.sessionId,
+      participant_id: participantOf(t.sessionId),
+      created_at: iso(t.createdAt),
+      stimulus_key: t.stimulusKey,
+      condition_a: t.conditionA,
+      condition_b: t.conditionB,
+      condition_c: t.conditionC,
+      rating_style_comprehension: t.ratingStyleComprehension,
+      rating_emotional_fit: t.ratingEmotionalFit,
+      rating_enjoyment: t.ratingEnjoyment,
+      free_text: t.freeText
+    })),
+    descriptions: descriptions.map((d) => ({
+      description_id: d.id,
+      created_at: iso(d.createdAt),
+      session_id: d.sessionId,
+      stimulus_id: d.stimulusId,
+      stored_image_id: d.storedImageId,
+      image_url: d.imageUrl,
+      model: d.model,
+      prompt_version: d.promptVersion,
+      accessibility_focus: d.accessibilityFocus,
+      text: d.text,
+      style_hints: parseStringList(d.styleHints).join("; "),
+      safety_notes: d.safetyNotes
+    })),
+    playback_events: events.map((e) => ({
+      event_id: e.id,
+      session_id: e.sessionId,
+      participant_id: participantOf(e.sessionId),
+      stimulus_key: e.stimulusKey,
+      stimulus_id: e.stimulusId,
+      condition: e.condition,
+      type: e.type,
+      client_ts: iso(e.clientTs),
+      server_ts: iso(e.createdAt),
+      seq: e.seq,
+      source: e.source,
+      position_ms: e.positionMs,
+      duration_ms: e.durationMs,
+      char_index: e.charIndex,
+      char_length: e.charLength
+    })),
+    playback_metrics: metrics.map((m) => ({
+      session_id: m.sessionId,
+      participant_id: participantOf(m.sessionId),
+      stimulus_key: m.stimulusKey,
+      condition: m.condition,
+      listening_ms: m.listeningMs,
+      completion_ratio: m.completionRatio,
+      plays: m.plays,
+      pauses: m.pauses,
+      seeks: m.seeks,
+      ended: m.ended,
+      regenerations: m.regenerations,
+      music_on_ms: m.musicOnMs
+    })),
+    item_responses: itemResponses.map((a) => {
+      const text = a.item.multiple && a.text ? parseStringList(a.text).join("; ") : a.text;
+      return {
+        item_response_id: a.id,
+        session_id: a.sessionId,
+        participant_id: participantOf(a.sessionId),
+        created_at: iso(a.createdAt),
+        updated_at: iso(a.updatedAt),
+        questionnaire_key: a.item.questionnaire.key,
+        questionnaire_version: a.item.questionnaire.version,
+        item_key: a.item.key,
+        item_type: a.item.type,
+        stimulus_key: a.stimulusKey || null,
+        condition: a.condition || null,
+        value: a.value,
+        scored_value: scoredValue(a.item, a.value),
+        text
+      };
+    }),
+    questionnaire_items: questionnaires.flatMap((q) =>
+      q.items.map((item) => {
+        const info = toQuestionnaireItemInfo(item);
+        return {
+          questionnaire_key: q.key,
+          questionnaire_version: q.version,
+          questionnaire_title: q.title,
+          scope: q.scope,
+          active: q.active,
+          position: item.position,
+          item_key: item.key,
+          item_type: item.type,
+          text: item.text,
+          min: item.min,
+          max: item.max,
+          anchors: labelled(info.anchors),
+          options: labelled(info.options),
+          required: item.required,
+          reverse_scored: item.reverseScored
+        };
+      })
+    ),
+    // One row per participant × stimulus × condition × answered measure.
+    long: [
+      ...responseRows.flatMap((r) =>
+        RATING_MEASURES.flatMap((m) => {
+          const value = r[`rating_${m.name}`];
+          return value == null ? [] : [longRow(r, m.name, value)];
+        })
+      ),
+      ...extraMeasures.map(({ row, measure, value }) => longRow(row, measure, value))
+    ]
+  };
+}
+
+function csvCell(value: Cell) {
+  if (value === null) return "";
+  // Text starting with = + - @ would run as a formula in Excel / Sheets; a leading ' keeps it text.
+  const s = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+// RFC 4180 CSV with the codebook's column order; missing values are empty cells.
+export function toCsv(table: ExportTable, rows: ExportRow[]) {
+  const columns = CODEBOOK[table].map((c) => c.name);
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c] ?? null)).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function codebookToCsv() {
+  const lines = ["table,column,type,description,values"];
+  for (const table of EXPORT_TABLES) {
+    for (const c of CODEBOOK[table]) {
+      lines.push([table, c.name, c.type, c.description, c.values ?? null].map(csvCell).join(","));
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+}
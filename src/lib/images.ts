@@ -0,0 +1,45 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Stimulus, StoredImage } from "@prisma/client";
+import { readStored } from "@/lib/storage";
+
+const PUBLIC_DIR = path.resolve("public");
+
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif"
+};
+
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES ?? 10 * 1024 * 1024);
+
+// Identify the image type from its magic bytes; the browser-supplied type is not trusted.
+export function detectImageType(buf: Buffer): string | null {
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return "image/jpeg";
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buf.length >= 6 && ["GIF87a", "GIF89a"].includes(buf.subarray(0, 6).toString("latin1"))) return "image/gif";
+  if (buf.length >= 12 && buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+export async function storedImageToDataUrl(image: StoredImage) {
+  const bytes = await readStored(image.filePath);
+  return `data:${image.mimeType};base64,${bytes.toString("base64")}`;
+}
+
+// Catalog stimuli are files under public/; read them server-side so clients only send the stimulus id.
+export async function stimulusImageToDataUrl(stimulus: Stimulus) {
+  const abs = path.resolve(PUBLIC_DIR, `.${stimulus.filePath}`);
+  if (!abs.startsWith(PUBLIC_DIR + path.sep)) {
+    throw new Error(`Stimulus ${stimulus.id} points outside public/: ${stimulus.filePath}`);
+  }
+  const bytes = await readFile(abs);
+  const mimeType = detectImageType(bytes);
+  if (!mimeType) throw new Error(`Stimulus ${stimulus.id} is not a supported image: ${stimulus.filePath}`);
+  return `data:${mimeType};base64,${bytes.toString("base64")}`;
+}
@@ -0,0 +1,119 @@
+import type { Description, Stimulus, StimulusPack } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "@/lib/prisma";
+import { getTtsProvider, type TtsRequest, type TtsRole } from "@/lib/tts";
+import { buildPlainSsml } from "@/lib/tts/azure";
+import { describeImage, saveDescription, toDescribeResponse } from "@/lib/descriptions";
+import { stimulusImageToDataUrl } from "@/lib/images";
+import { instructionsFor, type EmotionPreset, type OpenAIVoice } from "@/lib/tts/openai";
+import { writeContentAddressed } from "@/lib/storage";
+import { synthesizeMetered } from "@/lib/usage";
+import type { PackStatus, StimulusPackInfo } from "@/lib/types";
+
+export const PACK_STATUSES = ["draft", "approved", "retired"] as const;
+
+const PACK_USAGE = { route: "/api/packs" };
+
+export function toPackInfo(pack: StimulusPack & { description: Description }): StimulusPackInfo {
+  return {
+    id: pack.id,
+    stimulusId: pack.stimulusId,
+    status: pack.status as PackStatus,
+    approvedAt: pack.approvedAt?.toISOString() ?? null,
+    description: toDescribeResponse(pack.description),
+    ssml: pack.ssml,
+    azureVoiceName: pack.azureVoiceName,
+    openaiVoice: pack.openaiVoice,
+    emotionPreset: pack.emotionPreset,
+    audioUrls: {
+      emotion: `/api/packs/${pack.id}/audio/emotion`,
+      emotion_music: `/api/packs/${pack.id}/audio/emotion_music`
+    }
+  };
+}
+
+// Frozen audio is stored with the provider's own extension (mp3 from Azure/OpenAI, wav from the local stand-in).
+// Researcher actions, so recorded in the usage ledger but not rate limited.
+async function synthesizeToStorage(role: TtsRole, req: TtsRequest) {
+  const { audio, format } = await synthesizeMetered(getTtsProvider(role), req, PACK_USAGE);
+  const { relPath } = await writeContentAddressed("packs", audio, format);
+  return relPath;
+}
+
+// Generate (or reuse) the description, then synthesize and store the audio for conditions 2 and 3.
+// The pack starts as a draft; a researcher listens to it and approves it.
+export async function createPack(opts: {
+  stimulus: Stimulus;
+  descriptionId?: string;
+  describeModel?: string;
+  ssml?: string;
+  azureVoiceName: string;
+  openaiVoice: OpenAIVoice;
+  emotionPreset: EmotionPreset;
+}) {
+  const { stimulus, azureVoiceName, openaiVoice, emotionPreset } = opts;
+
+  let description: Description | null = null;
+  if (opts.descriptionId) {
+    description = await prisma.description.findUnique({ where: { id: opts.descriptionId } });
+    if (!description) throw new Error(`Description ${opts.descriptionId} not found`);
+  } else {
+    const generated = await describeImage(await stimulusImageToDataUrl(stimulus), true, PACK_USAGE, {
+      model: opts.describeModel
+    });
+    description = await saveDescription({ generated, accessibilityFocus: true, stimulusId: stimulus.id });
+  }
+
+  const ssml = opts.ssml?.trim() || buildPlainSsml({ text: description.text, voiceName: azureVoiceName, lang: "en-US" });
+  const azureAudioPath = await synthesizeToStorage("ssml", { input: { kind: "ssml", ssml }, voice: azureVoiceName });
+  const openaiAudioPath = await synthesizeToStorage("speech", {
+    input: { kind: "text", text: description.text },
+    voice: openaiVoice,
+    instructions: instructionsFor("emotion_music", emotionPreset)
+  });
+
+  return prisma.stimulusPack.create({
+    data: {
+      id: uuidv4(),
+      stimulusId: stimulus.id,
+      descriptionId: description.id,
+      ssml,
+      azureVoiceName,
+      azureAudioPath,
+      openaiVoice,
+      emotionPreset,
+      openaiAudioPath
+    },
+    include: { description: true }
+  });
+}
+
+// Re-synthesize condition 2 after the researcher edits the SSML of a draft pack.
+export async function updatePackSsml(packId: string, ssml: string, azureVoiceName?: string) {
+  const azureAudioPath = await synthesizeToStorage("ssml", { input: { kind: "ssml", ssml }, voice: azureVoiceName });
+  return prisma.stimulusPack.update({
+    where: { id: packId },
+    data: { ssml, azureAudioPath, ...(azureVoiceName ? { azureVoiceName } : {}) },
+    include: { description: true }
+  });
+}
+
+// Approving a pack retires any previously approved pack for the same stimulus.
+export async function setPackStatus(pack: StimulusPack, status: PackStatus) {
+  if (status !== "approved") {
+    return prisma.stimulusPack.update({ where: { id: pack.id }, data: { status }, include: { description: true } });
+  }
+
+  const [, approved] = await prisma.$transaction([
+    prisma.stimulusPack.updateMany({
+      where: { stimulusId: pack.stimulusId, status: "approved", id: { not: pack.id } },
+      data: { status: "retired" }
+    }),
+    prisma.stimulusPack.update({
+      where: { id: pack.id },
+      data: { status: "approved", approvedAt: new Date() },
+      include: { description: true }
+    })
+  ]);
+  return approved;
+}
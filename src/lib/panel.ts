@@ -0,0 +1,101 @@
+import { randomInt } from "node:crypto";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { assignedOrder } from "@/lib/counterbalance";
+import type { SessionStatus } from "@/lib/types";
+
+// Recruitment-panel integration for the participant flow: identifiers from the entry URL, completion codes,
+// redirect URLs and session outcomes. Configured through env (defaults match Prolific's URL parameters):
+//   STUDY_PARTICIPANT_PARAM / STUDY_STUDY_PARAM / STUDY_SESSION_PARAM   query parameter names
+//   STUDY_COMPLETION_URL / STUDY_SCREENOUT_URL / STUDY_TIMEOUT_URL       where to send the participant afterwards;
+//       {code}, {participantId} and {sessionId} are replaced (URL-encoded)
+//   STUDY_TIMEOUT_MINUTES                                               sessions left in progress longer time out
+
+export type PanelIds = { participantId?: string; externalStudyId?: string; externalSessionId?: string };
+
+// Picks the panel identifiers out of the query parameters /study was opened with.
+export function panelIdsFrom(params: Record<string, string>): PanelIds {
+  const pick = (name: string) => {
+    const v = params[name]?.trim();
+    return v ? v.slice(0, 200) : undefined;
+  };
+  return {
+    participantId: pick(process.env.STUDY_PARTICIPANT_PARAM || "PROLIFIC_PID"),
+    externalStudyId: pick(process.env.STUDY_STUDY_PARAM || "STUDY_ID"),
+    externalSessionId: pick(process.env.STUDY_SESSION_PARAM || "SESSION_ID")
+  };
+}
+
+const REDIRECT_ENV: Record<Exclude<SessionStatus, "in_progress">, string> = {
+  completed: "STUDY_COMPLETION_URL",
+  screened_out: "STUDY_SCREENOUT_URL",
+  timed_out: "STUDY_TIMEOUT_URL"
+};
+
+// Where to send a participant whose session ended with `status`; null when no URL is configured.
+export function redirectUrlFor(
+  status: Exclude<SessionStatus, "in_progress">,
+  values: { code?: string | null; participantId?: string | null; sessionId: string }
+) {
+  const template = process.env[REDIRECT_ENV[status]];
+  if (!template) return null;
+  return template
+    .replaceAll("{code}", encodeURIComponent(values.code ?? ""))
+    .replaceAll("{participantId}", encodeURIComponent(values.participantId ?? ""))
+    .replaceAll("{sessionId}", encodeURIComponent(values.sessionId));
+}
+
+// Unambiguous characters only (no 0/O, 1/I/L), since participants may copy the code by hand.
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export function generateCompletionCode(length = 8) {
+  return Array.from({ length }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+}
+
+export function sessionTimeoutMs() {
+  const minutes = Number(process.env.STUDY_TIMEOUT_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : null;
+}
+
+// Marks participant sessions left in progress past the timeout as timed out; workbench sessions stay open.
+// Called lazily (on session start and when a session is used) rather than from a scheduler.
+export async function expireStaleSessions() {
+  const timeout = sessionTimeoutMs();
+  if (!timeout) return 0;
+  const cutoff = new Date(Date.now() - timeout);
+  const { count } = await prisma.studySession.updateMany({
+    where: { status: "in_progress", source: "participant", createdAt: { lt: cutoff } },
+    data: { status: "timed_out", endedAt: new Date(), endReason: "timeout" }
+  });
+  return count;
+}
+
+// Every assigned stimulus has a response for each of its assigned conditions.
+export async function isSessionComplete(sessionId: string) {
+  const session = await prisma.studySession.findUnique({
+    where: { id: sessionId },
+    select: { assignments: true, responses: { select: { stimulusKey: true, condition: true } } }
+  });
+  if (!session?.assignments.length) return false;
+  const answered = new Set(session.responses.map((r) => `${r.stimulusKey}|${r.condition}`));
+  return session.assignments.every((a) => assignedOrder(a).every((c) => answered.has(`${a.stimulusKey}|${c}`)));
+}
+
+// Answers may only be added while a session is in progress. Returns an error response when not, null otherwise.
+export async function requireOpenSession(sessionId: string): Promise<NextResponse | null> {
+  await expireStaleSessions();
+  const session = await prisma.studySession.findUnique({ where: { id: sessionId } });
+  if (!session) return NextResponse.json({ error: "Unknown sessionId" }, { status: 404 });
+  if (session.status === "in_progress") return null;
+
+  const status = session.status as Exclude<SessionStatus, "in_progress">;
+  return NextResponse.json(
+    {
+      error: `This session has ended (${status})`,
+      status,
+      completionCode: session.completionCode,
+      redirectUrl: redirectUrlFor(status, { code: session.completionCode, participantId: session.participantId, sessionId })
+    },
+    { status: 409 }
+  );
+}
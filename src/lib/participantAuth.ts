@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { cookieFrom, PARTICIPANT_COOKIE, signToken, verifyToken } from "@/lib/authTokens";
+import { sessionTimeoutMs } from "@/lib/panel";
+import { prisma } from "@/lib/prisma";
+import { researcherFrom } from "@/lib/researcherAuth";
+
+// Participants get a cookie for their own session when it starts (/api/study/start). It only opens the
+// endpoints that session needs (see src/middleware.ts), and only for that session id.
+
+const DEFAULT_PARTICIPANT_MS = 24 * 60 * 60_000;
+
+export async function setParticipantCookie(res: NextResponse, sessionId: string) {
+  const ttl = sessionTimeoutMs() ?? DEFAULT_PARTICIPANT_MS;
+  res.cookies.set(PARTICIPANT_COOKIE, await signToken({ kind: "participant", sid: sessionId, exp: Date.now() + ttl }), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: Math.round(ttl / 1000)
+  });
+  return res;
+}
+
+// The session named by the signed participant cookie (the workbench gets one too when it starts a session), or
+// null. Paid provider calls are rate limited and recorded under it, never under a session id from the request body.
+export async function cookieSessionId(req: Request) {
+  const claims = await verifyToken(cookieFrom(req, PARTICIPANT_COOKIE));
+  if (claims?.kind !== "participant") return null;
+  const session = await prisma.studySession.findUnique({ where: { id: claims.sid }, select: { id: true } });
+  return session?.id ?? null;
+}
+
+// Researchers may act on any session (the workbench does); a participant only on their own.
+// Returns an error response when not allowed, null otherwise.
+export async function requireSessionAccess(req: Request, sessionId: string): Promise<NextResponse | null> {
+  const claims = await verifyToken(cookieFrom(req, PARTICIPANT_COOKIE));
+  if (claims?.kind === "participant" && claims.sid === sessionId) return null;
+  if (await researcherFrom(req)) return null;
+  return NextResponse.json(
+    { error: claims ? "This session belongs to someone else" : "Start the study first" },
+    { status: claims ? 403 : 401 }
+  );
+}
@@ -0,0 +1,81 @@
+import type { PlaybackEvent, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AudioMode, PlaybackMetrics } from "@/lib/types";
+
+// Events that start / stop audible output. A new generation replaces the audio, so it ends any playback.
+const STARTS = new Set(["play", "speech_start"]);
+const STOPS = new Set(["pause", "ended", "speech_end", "speech_cancel", "generate", "regenerate"]);
+
+// The browser fires "pause" right before "ended"; that one is not a participant pause.
+const END_SLACK_MS = 250;
+
+function progressOf(e: PlaybackEvent): number | null {
+  if (e.type === "ended") return 1;
+  if (e.charIndex != null && e.charLength) return e.charIndex / e.charLength;
+  if (e.positionMs != null && e.durationMs) return e.positionMs / e.durationMs;
+  return null;
+}
+
+// Metrics for one session × stimulus × condition. Intervals still open at the last event
+// (e.g. the tab was closed mid-playback) are not counted, since their end is unknown.
+function metricsFor(events: PlaybackEvent[]): Omit<PlaybackMetrics, "sessionId" | "stimulusKey" | "condition"> {
+  const m = { listeningMs: 0, furthest: 0, plays: 0, pauses: 0, seeks: 0, ended: 0, regenerations: 0, musicOnMs: 0 };
+  let playingSince: number | null = null;
+  let musicSince: number | null = null;
+
+  for (const e of events) {
+    const ts = e.clientTs.getTime();
+
+    if (STARTS.has(e.type)) {
+      m.plays++;
+      playingSince ??= ts;
+    } else if (STOPS.has(e.type) && playingSince !== null) {
+      m.listeningMs += Math.max(0, ts - playingSince);
+      playingSince = null;
+    }
+
+    if (e.type === "pause" && !(e.durationMs && e.positionMs != null && e.positionMs >= e.durationMs - END_SLACK_MS)) {
+      m.pauses++;
+    }
+    if (e.type === "ended") m.ended++;
+    if (e.type === "seek") m.seeks++;
+    if (e.type === "regenerate") m.regenerations++;
+
+    if (e.type === "music_on") musicSince ??= ts;
+    if (e.type === "music_off" && musicSince !== null) {
+      m.musicOnMs += Math.max(0, ts - musicSince);
+      musicSince = null;
+    }
+
+    // Seeks only move the playhead; progress counts what was played up to a stop.
+    const progress = e.type === "seek" ? null : progressOf(e);
+    if (progress !== null) m.furthest = Math.max(m.furthest, Math.min(1, progress));
+  }
+
+  const { furthest, ...rest } = m;
+  return { ...rest, completionRatio: m.plays > 0 ? Math.round(furthest * 1000) / 1000 : null };
+}
+
+export function playbackMetricsKey(m: { sessionId: string; stimulusKey: string; condition: string }) {
+  return JSON.stringify([m.sessionId, m.stimulusKey, m.condition]);
+}
+
+export function computePlaybackMetrics(events: PlaybackEvent[]): PlaybackMetrics[] {
+  const groups = new Map<string, PlaybackEvent[]>();
+  for (const e of events) {
+    const key = playbackMetricsKey(e);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(e);
+  }
+
+  return [...groups.values()].map((group) => {
+    group.sort((a, b) => a.clientTs.getTime() - b.clientTs.getTime() || a.seq - b.seq);
+    const { sessionId, stimulusKey, condition } = group[0];
+    return { sessionId, stimulusKey, condition: condition as AudioMode, ...metricsFor(group) };
+  });
+}
+
+export async function getPlaybackMetrics(where: Prisma.PlaybackEventWhereInput) {
+  const events = await prisma.playbackEvent.findMany({ where });
+  return computePlaybackMetrics(events);
+}
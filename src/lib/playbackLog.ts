@@ -0,0 +1,56 @@
+import type { PlaybackEventInput } from "@/lib/types";
+
+// Browser-side batching for playback telemetry: events are queued and posted to /api/study/events
+// every few seconds, and flushed with sendBeacon when the page is hidden so the last ones are not lost.
+
+const FLUSH_DELAY_MS = 3000;
+const MAX_BATCH = 200; // matches the route's limit
+
+type Queued = { sessionId: string; event: PlaybackEventInput };
+
+let queue: Queued[] = [];
+let seq = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+function send(sessionId: string, events: PlaybackEventInput[], useBeacon: boolean) {
+  const body = JSON.stringify({ sessionId, events });
+  if (useBeacon && navigator.sendBeacon?.("/api/study/events", body)) return;
+  fetch("/api/study/events", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true
+  }).catch((e) => console.warn("Failed to log playback events", e));
+}
+
+export function flushPlaybackEvents(useBeacon = false) {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const pending = queue;
+  queue = [];
+
+  const bySession = new Map<string, PlaybackEventInput[]>();
+  for (const { sessionId, event } of pending) {
+    if (!bySession.has(sessionId)) bySession.set(sessionId, []);
+    bySession.get(sessionId)!.push(event);
+  }
+  for (const [sessionId, events] of bySession) {
+    for (let i = 0; i < events.length; i += MAX_BATCH) send(sessionId, events.slice(i, i + MAX_BATCH), useBeacon);
+  }
+}
+
+export function logPlaybackEvent(sessionId: string, event: Omit<PlaybackEventInput, "clientTs" | "seq">) {
+  if (typeof window === "undefined") return;
+  if (!listening) {
+    listening = true;
+    window.addEventListener("pagehide", () => flushPlaybackEvents(true));
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flushPlaybackEvents(true);
+    });
+  }
+
+  queue.push({ sessionId, event: { ...event, clientTs: Date.now(), seq: seq++ } });
+  if (queue.length >= MAX_BATCH) flushPlaybackEvents();
+  else timer ??= setTimeout(() => flushPlaybackEvents(), FLUSH_DELAY_MS);
+}
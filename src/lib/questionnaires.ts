@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import type { Questionnaire, QuestionnaireItem } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  QUESTIONNAIRE_ITEM_TYPES,
+  RATING_MEASURES,
+  type ChoiceOption,
+  type ItemValue,
+  type QuestionnaireInfo,
+  type QuestionnaireItemInfo,
+  type QuestionnaireItemType,
+  type QuestionnaireScope,
+  type RatingKey,
+  type ScaleAnchor
+} from "@/lib/types";
+
+const ScaleAnchorSchema = z.object({ value: z.number(), label: z.string().min(1).max(120) });
+const ChoiceOptionSchema = z.object({ value: z.string().min(1).max(100), label: z.string().min(1).max(300) });
+
+// Scale defaults when a definition leaves the range out.
+const SCALE_DEFAULTS: Partial<Record<QuestionnaireItemType, { min: number; max: number; step: number }>> = {
+  likert: { min: 1, max: 7, step: 1 },
+  semantic_differential: { min: 1, max: 7, step: 1 },
+  slider: { min: 0, max: 100, step: 1 }
+};
+
+export const isScaleType = (type: string) => type in SCALE_DEFAULTS;
+
+const ItemDefinitionSchema = z
+  .object({
+    key: z.string().regex(/^[a-z][a-z0-9_]{0,59}$/, "Use lower_snake_case item keys"),
+    text: z.string().min(1).max(1000),
+    type: z.enum(QUESTIONNAIRE_ITEM_TYPES),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().positive().optional(),
+    anchors: z.array(ScaleAnchorSchema).max(101).optional(),
+    options: z.array(ChoiceOptionSchema).max(50).optional(),
+    multiple: z.boolean().optional(),
+    required: z.boolean().optional(),
+    reverseScored: z.boolean().optional()
+  })
+  .transform((item) => {
+    const defaults = SCALE_DEFAULTS[item.type];
+    return defaults
+      ? { ...item, min: item.min ?? defaults.min, max: item.max ?? defaults.max, step: item.step ?? defaults.step }
+      : item;
+  })
+  .superRefine((item, ctx) => {
+    if (isScaleType(item.type)) {
+      const { min = 0, max = 0 } = item;
+      if (min >= max) ctx.addIssue({ code: "custom", message: "min must be below max", path: ["max"] });
+      if (item.type !== "slider" && !(Number.isInteger(min) && Number.isInteger(max))) {
+        ctx.addIssue({ code: "custom", message: "Point scales need integer bounds", path: ["min"] });
+      }
+      for (const a of item.anchors ?? []) {
+        if (a.value < min || a.value > max) {
+          ctx.addIssue({ code: "custom", message: `Anchor ${a.value} is outside ${min}-${max}`, path: ["anchors"] });
+        }
+      }
+    } else if (item.reverseScored) {
+      ctx.addIssue({ code: "custom", message: "Only scale items can be reverse-scored", path: ["reverseScored"] });
+    }
+    if (item.type === "multiple_choice") {
+      const values = (item.options ?? []).map((o) => o.value);
+      if (values.length < 2) ctx.addIssue({ code: "custom", message: "Give at least two options", path: ["options"] });
+      if (new Set(values).size !== values.length) {
+        ctx.addIssue({ code: "custom", message: "Option values must be unique", path: ["options"] });
+      }
+    }
+  });
+
+export const QuestionnaireDefinitionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9-]{0,59}$/, "Use lower-kebab-case questionnaire keys"),
+  title: z.string().min(1).max(200),
+  instructions: z.string().max(2000).optional(),
+  scope: z.enum(["condition", "session"]),
+  items: z
+    .array(ItemDefinitionSchema)
+    .min(1)
+    .max(100)
+    .refine((items) => new Set(items.map((i) => i.key)).size === items.length, "Item keys must be unique.")
+});
+export type QuestionnaireDefinition = z.infer<typeof QuestionnaireDefinitionSchema>;
+
+// anchors / options are stored as JSON strings, like the other lists in this schema.
+function parseJsonList<T>(raw: string, schema: z.ZodType<T>): T[] {
+  try {
+    const parsed = z.array(schema).safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toQuestionnaireItemInfo(row: QuestionnaireItem): QuestionnaireItemInfo {
+  return {
+    id: row.id,
+    key: row.key,
+    text: row.text,
+    type: row.type as QuestionnaireItemType,
+    min: row.min,
+    max: row.max,
+    step: row.step,
+    anchors: parseJsonList<ScaleAnchor>(row.anchors, ScaleAnchorSchema),
+    options: parseJsonList<ChoiceOption>(row.options, ChoiceOptionSchema),
+    multiple: row.multiple,
+    required: row.required,
+    reverseScored: row.reverseScored
+  };
+}
+
+export function toQuestionnaireInfo(row: Questionnaire & { items: QuestionnaireItem[] }): QuestionnaireInfo {
+  return {
+    id: row.id,
+    key: row.key,
+    version: row.version,
+    title: row.title,
+    instructions: row.instructions,
+    scope: row.scope as QuestionnaireScope,
+    active: row.active,
+    items: [...row.items].sort((a, b) => a.position - b.position).map(toQuestionnaireItemInfo)
+  };
+}
+
+export const questionnaireInclude = { items: { orderBy: { position: "asc" } } } as const;
+
+// Definitions are immutable once answered, so saving always creates the next version of the key
+// and deactivates the earlier ones.
+export async function createQuestionnaireVersion(def: QuestionnaireDefinition) {
+  const latest = await prisma.questionnaire.findFirst({ where: { key: def.key }, orderBy: { version: "desc" } });
+  const id = uuidv4();
+
+  const [, row] = await prisma.$transaction([
+    prisma.questionnaire.updateMany({ where: { key: def.key }, data: { active: false } }),
+    prisma.questionnaire.create({
+      data: {
+        id,
+        key: def.key,
+        version: (latest?.version ?? 0) + 1,
+        title: def.title,
+        instructions: def.instructions,
+        scope: def.scope,
+        items: {
+          create: def.items.map(({ anchors, options, ...item }, position) => ({
+            id: uuidv4(),
+            position,
+            ...item,
+            anchors: JSON.stringify(anchors ?? []),
+            options: JSON.stringify(options ?? [])
+          }))
+        }
+      },
+      include: questionnaireInclude
+    })
+  ]);
+  return toQuestionnaireInfo(row);
+}
+
+export function isEmptyValue(value: ItemValue | undefined | null) {
+  if (value == null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+export type StoredItemValue = { value: number | null; text: string | null };
+
+// Checks an answer against its item and converts it to the ItemResponse columns.
+export function toStoredValue(item: QuestionnaireItemInfo, raw: ItemValue): StoredItemValue | { error: string } {
+  if (isScaleType(item.type)) {
+    if (typeof raw !== "number" || !Number.isFinite(raw)) return { error: "Expected a number" };
+    const min = item.min ?? -Infinity;
+    const max = item.max ?? Infinity;
+    if (raw < min || raw > max) return { error: `Expected a value between ${min} and ${max}` };
+    if (item.type !== "slider" && !Number.isInteger(raw)) return { error: "Expected a whole scale point" };
+    return { value: raw, text: null };
+  }
+
+  if (item.type === "multiple_choice") {
+    const chosen = Array.isArray(raw) ? raw : typeof raw === "string" ? [raw] : null;
+    if (!chosen) return { error: "Expected an option value" };
+    const allowed = new Set(item.options.map((o) => o.value));
+    const unknown = chosen.filter((v) => !allowed.has(v));
+    if (unknown.length) return { error: `Unknown option(s): ${unknown.join(", ")}` };
+    if (!item.multiple && chosen.length > 1) return { error: "Only one option may be chosen" };
+    return { value: null, text: item.multiple ? JSON.stringify([...new Set(chosen)]) : chosen[0] };
+  }
+
+  if (typeof raw !== "string") return { error: "Expected text" };
+  if (raw.length > 2000) return { error: "Text is limited to 2000 characters" };
+  return { value: null, text: raw };
+}
+
+export type ValidatedAnswer = { item: QuestionnaireItem; stored: StoredItemValue };
+
+// Checks answers (keyed by item id) to questionnaires of one scope: every value against its item, and that
+// each required item of the active questionnaires of that scope is answered. Errors are keyed by item id.
+// A study that names its questionnaires (keys) only accepts and requires items of those.
+export async function validateAnswers(answers: Record<string, ItemValue>, scope: QuestionnaireScope, keys: string[] = []) {
+  const inStudy = keys.length ? { key: { in: keys } } : {};
+  const [answered, active] = await Promise.all([
+    prisma.questionnaireItem.findMany({ where: { id: { in: Object.keys(answers) } }, include: { questionnaire: true } }),
+    prisma.questionnaireItem.findMany({ where: { required: true, questionnaire: { active: true, scope, ...inStudy } } })
+  ]);
+  const byId = new Map(answered.map((item) => [item.id, item]));
+
+  const valid: ValidatedAnswer[] = [];
+  const errors: Record<string, string> = {};
+  for (const [itemId, raw] of Object.entries(answers)) {
+    const item = byId.get(itemId);
+    if (!item || item.questionnaire.scope !== scope || (keys.length && !keys.includes(item.questionnaire.key))) {
+      errors[itemId] = `Unknown ${scope} questionnaire item`;
+      continue;
+    }
+    if (isEmptyValue(raw)) continue;
+    const result = toStoredValue(toQuestionnaireItemInfo(item), raw);
+    if ("error" in result) errors[itemId] = result.error;
+    else valid.push({ item, stored: result });
+  }
+  for (const item of active) {
+    if (!valid.some((a) => a.item.id === item.id)) errors[item.id] = `"${item.key}" is required`;
+  }
+  return { answers: valid, errors };
+}
+
+// Value used in exports and analysis: reverse-scored items are flipped within their range.
+export function scoredValue(item: Pick<QuestionnaireItem, "min" | "max" | "reverseScored">, value: number | null) {
+  if (value == null || !item.reverseScored || item.min == null || item.max == null) return value;
+  return item.min + item.max - value;
+}
+
+// Condition items mirrored into the ConditionResponse columns, so the dashboard and existing exports keep
+// working: integer 1–7 Likert items whose key matches a rating measure (the columns hold 1–7 integers), and a
+// free-text item keyed "free_text". Any other item is only stored as an ItemResponse.
+export function conditionResponseColumn(
+  item: Pick<QuestionnaireItem, "key" | "type" | "min" | "max" | "step">
+): RatingKey | "freeText" | null {
+  if (item.key === "free_text") return item.type === "free_text" ? "freeText" : null;
+  if (item.type !== "likert" || item.min !== 1 || item.max !== 7 || item.step !== 1) return null;
+  return RATING_MEASURES.find((m) => m.name === item.key)?.key ?? null;
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Caps on paid provider calls from /api/speech, /api/azure-tts and /api/describe. Calls are counted from the usage
+// ledger (src/lib/usage.ts) over a sliding window, so the limits hold across server instances:
+//   RATE_LIMIT_WINDOW_MINUTES (default 60)
+//   RATE_LIMIT_SESSION_CALLS  (default 30)  — per study session (from the signed participant cookie)
+//   RATE_LIMIT_GLOBAL_CALLS   (default 500) — the whole deployment
+// 0 switches a limit off. Audio cache hits cost nothing and are never limited.
+
+export type RateLimitScope = "session" | "global";
+
+// Too many calls in the window; maps to HTTP 429 with Retry-After.
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly scope: RateLimitScope,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+function limitFromEnv(name: string, fallback: number) {
+  const raw = process.env[name]?.trim();
+  const n = raw ? Number(raw) : fallback;
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export function rateLimits() {
+  return {
+    windowMs: Math.max(1, limitFromEnv("RATE_LIMIT_WINDOW_MINUTES", 60)) * 60_000,
+    perSession: limitFromEnv("RATE_LIMIT_SESSION_CALLS", 30),
+    global: limitFromEnv("RATE_LIMIT_GLOBAL_CALLS", 500)
+  };
+}
+
+function waitText(seconds: number) {
+  return seconds < 90 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+// Local synthesis and the describe fixture cost nothing: they are recorded but never limited.
+export const FREE_PROVIDERS = ["local", "fixture"];
+
+// Writes the ledger entry for a call about to be made and checks the limits in the same transaction, so concurrent
+// requests cannot all pass the check before any of them is recorded. Throws RateLimitError, leaving no entry,
+// when the call would exceed a limit.
+export async function reserveCall(data: Prisma.UsageEntryUncheckedCreateInput) {
+  if (FREE_PROVIDERS.includes(data.provider)) return prisma.usageEntry.create({ data });
+  const { windowMs, perSession, global } = rateLimits();
+  return prisma.$transaction(async (tx) => {
+    // Inserting first takes the database's write lock, so concurrent reservations are counted one at a time.
+    const entry = await tx.usageEntry.create({ data });
+    const since = new Date(Date.now() - windowMs);
+    const paid: Prisma.UsageEntryWhereInput = { createdAt: { gte: since }, provider: { notIn: FREE_PROVIDERS } };
+    const checks: { scope: RateLimitScope; limit: number; where: Prisma.UsageEntryWhereInput }[] = [];
+    if (perSession > 0) {
+      // Calls outside a study session share one session's allowance; freezing packs is not limited.
+      const where = data.sessionId
+        ? { ...paid, sessionId: data.sessionId }
+        : { ...paid, sessionId: null, route: { not: "/api/packs" } };
+      checks.push({ scope: "session", limit: perSession, where });
+    }
+    if (global > 0) checks.push({ scope: "global", limit: global, where: paid });
+
+    for (const { scope, limit, where } of checks) {
+      if ((await tx.usageEntry.count({ where })) <= limit) continue;
+      // A call frees up once the limit-th most recent earlier call leaves the window.
+      const blocking = await tx.usageEntry.findFirst({
+        where: { ...where, id: { not: entry.id } },
+        orderBy: { createdAt: "desc" },
+        skip: limit - 1,
+        select: { createdAt: true }
+      });
+      const freeAt = (blocking?.createdAt.getTime() ?? Date.now()) + windowMs;
+      const retryAfterSeconds = Math.max(1, Math.ceil((freeAt - Date.now()) / 1000));
+      const wait = waitText(retryAfterSeconds);
+      throw new RateLimitError(
+        scope === "session"
+          ? `This session has reached its limit of ${limit} generations per ${windowMs / 60_000} minutes. Try again in ${wait}.`
+          : `The app has reached its overall generation limit for now. Try again in ${wait}.`,
+        scope,
+        retryAfterSeconds
+      );
+    }
+    return entry;
+  });
+}
+
+export function rateLimitResponse(e: RateLimitError) {
+  return NextResponse.json(
+    { error: e.message, scope: e.scope, retryAfterSeconds: e.retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(e.retryAfterSeconds) } }
+  );
+}
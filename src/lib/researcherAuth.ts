@@ -0,0 +1,97 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Researcher } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { ResearcherInfo } from "@/lib/types";
+import {
+  authSecret,
+  cookieFrom,
+  hasResearcherToken,
+  RESEARCHER_COOKIE,
+  RESEARCHER_SESSION_MS,
+  signToken,
+  verifyToken,
+  type ResearcherClaims
+} from "@/lib/authTokens";
+
+// Researchers sign in with an account (see /api/researchers) or the shared RESEARCHER_TOKEN and get a signed
+// session cookie. Scripts can keep sending the token as `Authorization: Bearer <token>`.
+// src/middleware.ts already turns away anonymous requests; these checks also catch deactivated accounts.
+
+export const ResearcherFieldsSchema = z.object({
+  email: z
+    .string()
+    .email()
+    .max(200)
+    .transform((e) => e.toLowerCase()),
+  name: z.string().min(1).max(200).optional(),
+  password: z.string().min(12, "Use at least 12 characters").max(200)
+});
+
+export function toResearcherInfo(row: Researcher): ResearcherInfo {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    lastLoginAt: row.lastLoginAt?.toISOString() ?? null
+  };
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Stored as "scrypt$<salt>$<hash>" (base64url).
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export async function researcherFrom(req: Request): Promise<ResearcherClaims | null> {
+  if (hasResearcherToken(req)) return { kind: "researcher", sub: "token", exp: Number.MAX_SAFE_INTEGER };
+  const claims = await verifyToken(cookieFrom(req, RESEARCHER_COOKIE));
+  if (claims?.kind !== "researcher") return null;
+  if (claims.sub === "token") return process.env.RESEARCHER_TOKEN ? claims : null;
+  const account = await prisma.researcher.findUnique({ where: { id: claims.sub }, select: { active: true } });
+  return account?.active ? claims : null;
+}
+
+// Returns an error response when the request is not authorized, null when it may proceed.
+export async function requireResearcher(req: Request): Promise<NextResponse | null> {
+  if (!authSecret()) {
+    return NextResponse.json(
+      { error: "Researcher access is not configured (set AUTH_SECRET or RESEARCHER_TOKEN)." },
+      { status: 500 }
+    );
+  }
+  if (!(await researcherFrom(req))) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="researcher"' } }
+    );
+  }
+  return null;
+}
+
+export async function setResearcherCookie(res: NextResponse, sub: string) {
+  const exp = Date.now() + RESEARCHER_SESSION_MS;
+  res.cookies.set(RESEARCHER_COOKIE, await signToken({ kind: "researcher", sub, exp }), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: RESEARCHER_SESSION_MS / 1000
+  });
+  return res;
+}
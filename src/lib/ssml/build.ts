@@ -0,0 +1,75 @@
+import type { MarkTree, SpanMark, SpanNode } from "@/lib/ssml/marks";
+
+export function escapeXml(s: string) {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+// The SSML element for a span; null for a prosody span without any setting.
+export function spanElement(mark: SpanMark): { tag: string; attrs: Record<string, string> } | null {
+  if (mark.kind === "emphasis") return { tag: "emphasis", attrs: { level: mark.level } };
+  if (mark.kind === "express-as") {
+    const attrs: Record<string, string> = { style: mark.style };
+    if (mark.styledegree != null) attrs.styledegree = String(mark.styledegree);
+    if (mark.role) attrs.role = mark.role;
+    return { tag: "mstts:express-as", attrs };
+  }
+  const attrs = Object.fromEntries(
+    (["pitch", "rate", "volume"] as const).flatMap((k) => (mark[k] ? [[k, mark[k]]] : []))
+  );
+  return Object.keys(attrs).length ? { tag: "prosody", attrs } : null;
+}
+
+export function buildSsmlFromTextAndMarks(opts: { text: string; voiceName: string; lang: string; marks: MarkTree }) {
+  const { text, voiceName, lang, marks } = opts;
+
+  let out = "";
+  let nextBreak = 0;
+
+  // Text in [from, to), with each break placed before the character at its position.
+  function emitText(from: number, to: number) {
+    let cursor = from;
+    while (nextBreak < marks.breaks.length && marks.breaks[nextBreak].at < to) {
+      const at = Math.max(cursor, marks.breaks[nextBreak].at);
+      out += escapeXml(text.slice(cursor, at));
+      out += `<break time="${marks.breaks[nextBreak].timeMs}ms"/>`;
+      cursor = at;
+      nextBreak++;
+    }
+    out += escapeXml(text.slice(cursor, to));
+  }
+
+  function emitSpans(nodes: SpanNode[], from: number, to: number) {
+    let cursor = from;
+    for (const node of nodes) {
+      emitText(cursor, node.start);
+      const element = spanElement(node);
+      if (element) {
+        const attrs = Object.entries(element.attrs).map(([k, v]) => ` ${k}="${escapeXml(v)}"`);
+        out += `<${element.tag}${attrs.join("")}>`;
+      }
+      emitSpans(node.children, node.start, node.end);
+      if (element) out += `</${element.tag}>`;
+      cursor = node.end;
+    }
+    emitText(cursor, to);
+  }
+
+  emitSpans(marks.spans, 0, text.length);
+  // Breaks at (or, after a text edit, past) the end of the text.
+  for (const b of marks.breaks.slice(nextBreak)) out += `<break time="${b.timeMs}ms"/>`;
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<speak version="1.0"
+  xmlns="http://www.w3.org/2001/10/synthesis"
+  xmlns:mstts="https://www.w3.org/2001/mstts"
+  xml:lang="${escapeXml(lang)}">
+  <voice name="${escapeXml(voiceName)}">
+    ${out}
+  </voice>
+</speak>`;
+}
@@ -0,0 +1,6 @@
+export * from "@/lib/ssml/marks";
+export * from "@/lib/ssml/build";
+export * from "@/lib/ssml/remap";
+export * from "@/lib/ssml/xml";
+export * from "@/lib/ssml/parse";
+export * from "@/lib/ssml/validate";
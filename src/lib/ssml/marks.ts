@@ -0,0 +1,110 @@
+// Intonation marks of the SSML editor (workbench, condition 2). Offsets are character indices into the editor's
+// base text. Spans form a tree: a span lies either inside another or next to it, never across its edge, so the
+// SSML built from it (src/lib/ssml/build.ts) is always well nested. Breaks are points, kept apart from the tree.
+// Speaking styles (express-as) never nest: they stay at the top of the tree, directly inside <voice>.
+
+export const EMPHASIS_LEVELS = ["reduced", "moderate", "strong"] as const;
+export type EmphasisLevel = (typeof EMPHASIS_LEVELS)[number];
+
+// mstts:express-as roles; a voice supports some of them or none.
+export const EXPRESS_AS_ROLES = [
+  "Girl",
+  "Boy",
+  "YoungAdultFemale",
+  "YoungAdultMale",
+  "OlderAdultFemale",
+  "OlderAdultMale",
+  "SeniorFemale",
+  "SeniorMale"
+] as const;
+export type ExpressAsRole = (typeof EXPRESS_AS_ROLES)[number];
+
+// styledegree: intensity of the style, 0.01 to 2 (1 when omitted).
+export const STYLE_DEGREE_MIN = 0.01;
+export const STYLE_DEGREE_MAX = 2;
+
+export type SpanMark =
+  | { kind: "emphasis"; start: number; end: number; level: EmphasisLevel }
+  | { kind: "prosody"; start: number; end: number; pitch?: string; rate?: string; volume?: string }
+  | { kind: "express-as"; start: number; end: number; style: string; styledegree?: number; role?: ExpressAsRole };
+
+export type BreakMark = { kind: "break"; at: number; timeMs: number };
+
+export type Mark = SpanMark | BreakMark;
+
+export type SpanNode = SpanMark & { children: SpanNode[] };
+
+// Top-level spans in text order, plus the breaks sorted by position.
+export type MarkTree = { spans: SpanNode[]; breaks: BreakMark[] };
+
+export const EMPTY_MARKS: MarkTree = { spans: [], breaks: [] };
+
+// Which element goes outside when two spans cover exactly the same text.
+const NESTING_RANK: Record<SpanMark["kind"], number> = { "express-as": 0, prosody: 1, emphasis: 2 };
+
+// Text order; of spans starting together the longer one encloses the shorter.
+function spanOrder(a: SpanMark, b: SpanMark) {
+  return a.start - b.start || b.end - a.end || NESTING_RANK[a.kind] - NESTING_RANK[b.kind];
+}
+
+// Speaking styles cannot nest, so a later express-as span replaces earlier ones where they overlap. Other spans
+// are cut at the style edges: each piece then lies inside one style or outside all of them, and a piece with
+// the same range as a style goes inside it (NESTING_RANK), which keeps every style at the top of the tree.
+function separateStyles(marks: SpanMark[]): SpanMark[] {
+  let styles: SpanMark[] = [];
+  for (const m of marks) {
+    if (m.kind !== "express-as") continue;
+    styles = styles
+      .flatMap((s) => [
+        { ...s, end: Math.min(s.end, m.start) },
+        { ...s, start: Math.max(s.start, m.end) }
+      ])
+      .filter((s) => s.end > s.start);
+    styles.push(m);
+  }
+  const edges = [...new Set(styles.flatMap((s) => [s.start, s.end]))].sort((a, b) => a - b);
+  const others = marks
+    .filter((m) => m.kind !== "express-as")
+    .flatMap((m) => {
+      const cuts = [m.start, ...edges.filter((e) => e > m.start && e < m.end), m.end];
+      return cuts.slice(1).map((end, i) => ({ ...m, start: cuts[i], end }));
+    });
+  return [...styles, ...others];
+}
+
+// Nest spans into a tree. A span that starts inside another and ends past it is split at that edge; the rest
+// is then placed like any other span, so partial overlaps become two correctly nested pieces.
+export function buildSpanTree(marks: SpanMark[]): SpanNode[] {
+  const queue = separateStyles(marks.filter((m) => m.end > m.start)).sort(spanOrder);
+  const roots: SpanNode[] = [];
+  const open: SpanNode[] = []; // the current span and its ancestors, innermost last
+
+  while (queue.length) {
+    let mark = queue.shift()!;
+    while (open.length && open[open.length - 1].end <= mark.start) open.pop();
+    const parent = open[open.length - 1];
+    if (parent && mark.end > parent.end) {
+      const rest = { ...mark, start: parent.end };
+      const at = queue.findIndex((m) => spanOrder(rest, m) < 0);
+      queue.splice(at < 0 ? queue.length : at, 0, rest);
+      mark = { ...mark, end: parent.end };
+    }
+    const node: SpanNode = { ...mark, children: [] };
+    (parent ? parent.children : roots).push(node);
+    open.push(node);
+  }
+  return roots;
+}
+
+// The spans of a tree, outer before inner, without their children.
+export function flattenSpans(nodes: SpanNode[]): SpanMark[] {
+  return nodes.flatMap(({ children, ...mark }) => [mark as SpanMark, ...flattenSpans(children)]);
+}
+
+export function insertSpan(tree: MarkTree, mark: SpanMark): MarkTree {
+  return { ...tree, spans: buildSpanTree([...flattenSpans(tree.spans), mark]) };
+}
+
+export function insertBreak(tree: MarkTree, mark: BreakMark): MarkTree {
+  return { ...tree, breaks: [...tree.breaks, mark].sort((a, b) => a.at - b.at) };
+}
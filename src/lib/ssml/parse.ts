@@ -0,0 +1,176 @@
+import {
+  buildSpanTree,
+  EMPHASIS_LEVELS,
+  EXPRESS_AS_ROLES,
+  STYLE_DEGREE_MAX,
+  STYLE_DEGREE_MIN,
+  type BreakMark,
+  type EmphasisLevel,
+  type ExpressAsRole,
+  type MarkTree,
+  type SpanMark
+} from "@/lib/ssml/marks";
+import { parseXml, SsmlSyntaxError, type XmlElement } from "@/lib/ssml/xml";
+
+// Reads an SSML document back into the editor's model: base text, intonation marks, voice and language, so SSML
+// tuned elsewhere (or frozen in a pack) can be edited again. Whitespace is collapsed as a synthesizer would.
+// Whatever the editor cannot represent is reported as an issue and dropped; its text is always kept.
+
+// element is null for problems not tied to one element, such as malformed XML.
+export type SsmlIssue = { element: string | null; offset: number; message: string };
+
+export type ParsedSsml = {
+  text: string;
+  marks: MarkTree;
+  voice: { name: string; offset: number } | null;
+  lang: string | null;
+  issues: SsmlIssue[];
+};
+
+// <break strength="..."> in milliseconds, as Azure renders them.
+export const BREAK_STRENGTH_MS: Record<string, number> = {
+  none: 0,
+  "x-weak": 250,
+  weak: 500,
+  medium: 750,
+  strong: 1000,
+  "x-strong": 1250
+};
+
+// "200ms" or "1.5s"; null for anything else.
+export function parseBreakTime(value: string) {
+  const m = /^\s*(\d+(?:\.\d+)?)\s*(ms|s)\s*$/.exec(value);
+  return m ? Math.round(Number(m[1]) * (m[2] === "s" ? 1000 : 1)) : null;
+}
+
+const PROSODY_ATTRS = ["pitch", "rate", "volume"] as const;
+
+// A span's settings, before its range is known.
+type SpanSettings = { [K in SpanMark["kind"]]: Omit<Extract<SpanMark, { kind: K }>, "start" | "end"> }[SpanMark["kind"]];
+
+// Elements whose text is kept while the element itself is dropped, with the reason shown to the researcher.
+const TEXT_ONLY: Record<string, string> = {
+  "say-as": "say-as is not editable; the text is kept as written.",
+  phoneme: "Phonetic pronunciations are not editable; the text is kept, the pronunciation dropped.",
+  sub: "Aliases (sub) are not editable; the written text is kept, the alias dropped."
+};
+
+// Throws SsmlSyntaxError when the document is not well-formed XML or not an SSML <speak> document.
+export function parseSsml(ssml: string): ParsedSsml {
+  const root = parseXml(ssml);
+  if (root.name !== "speak") {
+    throw new SsmlSyntaxError(`The root element must be <speak>, not <${root.name}>`, root.offset);
+  }
+
+  let text = "";
+  const spans: SpanMark[] = [];
+  const breaks: BreakMark[] = [];
+  const issues: SsmlIssue[] = [];
+  let voice: ParsedSsml["voice"] = null;
+  let inStyle = false;
+  const issue = (el: XmlElement, message: string) => issues.push({ element: el.name, offset: el.offset, message });
+
+  function appendText(raw: string) {
+    let chunk = raw.replace(/\s+/g, " ");
+    if ((!text || text.endsWith(" ")) && chunk.startsWith(" ")) chunk = chunk.slice(1);
+    text += chunk;
+  }
+
+  function visitChildren(el: XmlElement) {
+    for (const child of el.children) {
+      if (child.type === "text") appendText(child.text);
+      else visit(child);
+    }
+  }
+
+  // Visits the element's content and marks it, without the spaces at its edges.
+  function visitSpan(el: XmlElement, mark: SpanSettings | null) {
+    let start = text.length;
+    visitChildren(el);
+    if (!mark) return;
+    let end = text.length;
+    if (text[start] === " ") start++;
+    if (text[end - 1] === " ") end--;
+    if (end > start) spans.push({ ...mark, start, end });
+  }
+
+  function visit(el: XmlElement) {
+    switch (el.name) {
+      case "speak":
+        issue(el, "Nested <speak> is not allowed; its content is kept.");
+        return visitChildren(el);
+      case "voice": {
+        const name = el.attrs.name ?? "";
+        if (!voice) voice = { name, offset: el.offset };
+        else if (name !== voice.name) issue(el, `Only one voice per document; this text will use ${voice.name}.`);
+        return visitChildren(el);
+      }
+      case "prosody": {
+        for (const attr of Object.keys(el.attrs)) {
+          if (!(PROSODY_ATTRS as readonly string[]).includes(attr)) issue(el, `prosody "${attr}" is not editable; dropped.`);
+        }
+        const settings = Object.fromEntries(PROSODY_ATTRS.flatMap((k) => (el.attrs[k] ? [[k, el.attrs[k]]] : [])));
+        if (!Object.keys(settings).length) issue(el, "prosody without pitch, rate or volume; dropped.");
+        return visitSpan(el, Object.keys(settings).length ? { kind: "prosody", ...settings } : null);
+      }
+      case "emphasis": {
+        let level = (el.attrs.level ?? "moderate") as EmphasisLevel;
+        if (!EMPHASIS_LEVELS.includes(level)) {
+          issue(el, `Emphasis level "${el.attrs.level}" is not supported; using moderate.`);
+          level = "moderate";
+        }
+        return visitSpan(el, { kind: "emphasis", level });
+      }
+      case "mstts:express-as": {
+        if (inStyle) {
+          issue(el, "Nested express-as is not supported; the outer style is kept.");
+          return visitChildren(el);
+        }
+        if (!el.attrs.style) {
+          issue(el, "express-as without a style; dropped.");
+          return visitChildren(el);
+        }
+        const mark: SpanSettings = { kind: "express-as", style: el.attrs.style };
+        if (el.attrs.styledegree != null) {
+          const degree = Number(el.attrs.styledegree);
+          if (degree >= STYLE_DEGREE_MIN && degree <= STYLE_DEGREE_MAX) mark.styledegree = degree;
+          else issue(el, `styledegree "${el.attrs.styledegree}" is out of range; dropped.`);
+        }
+        if (el.attrs.role != null) {
+          if (EXPRESS_AS_ROLES.includes(el.attrs.role as ExpressAsRole)) mark.role = el.attrs.role as ExpressAsRole;
+          else issue(el, `Role "${el.attrs.role}" is not supported; dropped.`);
+        }
+        inStyle = true;
+        visitSpan(el, mark);
+        inStyle = false;
+        return;
+      }
+      case "break": {
+        const timeMs =
+          el.attrs.time != null ? parseBreakTime(el.attrs.time) : BREAK_STRENGTH_MS[el.attrs.strength ?? "medium"];
+        if (timeMs == null) issue(el, `Break "${el.attrs.time ?? el.attrs.strength}" is not a duration; dropped.`);
+        else breaks.push({ kind: "break", at: text.length, timeMs });
+        return;
+      }
+      default:
+        issue(el, TEXT_ONLY[el.name] ?? `<${el.name}> is not supported by the editor; its text is kept.`);
+        return visitChildren(el);
+    }
+  }
+
+  visitChildren(root);
+
+  // Trailing whitespace is not part of the text; marks past the end are clamped to it.
+  if (text.endsWith(" ")) text = text.slice(0, -1);
+  const clamp = (n: number) => Math.min(n, text.length);
+  return {
+    text,
+    marks: {
+      spans: buildSpanTree(spans.map((s) => ({ ...s, start: clamp(s.start), end: clamp(s.end) }))),
+      breaks: breaks.map((b) => ({ ...b, at: clamp(b.at) })).sort((a, b) => a.at - b.at)
+    },
+    voice,
+    lang: root.attrs["xml:lang"] ?? null,
+    issues
+  };
+}
@@ -0,0 +1,51 @@
+import type { MarkTree, SpanNode } from "@/lib/ssml/marks";
+
+// Keeps intonation marks attached to their words while the editor text changes. A textarea change is one
+// contiguous edit (typing, deleting, pasting over a selection), so the common prefix and suffix of the old and
+// new text locate it exactly.
+
+// Text [start, deletedEnd) of the old text was replaced by insertedLength characters.
+export type TextEdit = { start: number; deletedEnd: number; insertedLength: number };
+
+// `caret` (the textarea's selectionEnd after the change) resolves ambiguous edits such as typing a letter next
+// to the same letter: the inserted text ends at the caret, so the unchanged suffix cannot reach before it.
+export function diffText(before: string, after: string, caret?: number): TextEdit | null {
+  if (before === after) return null;
+  const shorter = Math.min(before.length, after.length);
+  const maxSuffix = caret == null ? shorter : Math.min(shorter, Math.max(0, after.length - caret));
+
+  let suffix = 0;
+  while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  let prefix = 0;
+  while (prefix < shorter - suffix && before[prefix] === after[prefix]) prefix++;
+
+  return { start: prefix, deletedEnd: before.length - suffix, insertedLength: after.length - suffix - prefix };
+}
+
+// New offset of an old one. Offsets inside the replaced text move to the end of the insertion, and text typed
+// at a span's end joins the span (as in a rich-text editor), but text typed at its start does not.
+function mapOffset(offset: number, edit: TextEdit) {
+  if (offset < edit.start) return offset;
+  if (offset >= edit.deletedEnd) return offset + edit.insertedLength - (edit.deletedEnd - edit.start);
+  return edit.start + edit.insertedLength;
+}
+
+// The mapping preserves order, so nesting is preserved; spans whose text was deleted entirely are dropped
+// (with everything inside them), partly deleted ones shrink.
+function remapSpans(nodes: SpanNode[], edit: TextEdit): SpanNode[] {
+  return nodes.flatMap((node) => {
+    const start = mapOffset(node.start, edit);
+    const end = mapOffset(node.end, edit);
+    return end > start ? [{ ...node, start, end, children: remapSpans(node.children, edit) }] : [];
+  });
+}
+
+export function remapMarks(tree: MarkTree, edit: TextEdit): MarkTree {
+  return {
+    spans: remapSpans(tree.spans, edit),
+    // Breaks inside the deleted text go with it; those at its edges stay.
+    breaks: tree.breaks
+      .filter((b) => b.at <= edit.start || b.at >= edit.deletedEnd)
+      .map((b) => ({ ...b, at: mapOffset(b.at, edit) }))
+  };
+}
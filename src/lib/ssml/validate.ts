@@ -0,0 +1,184 @@
+import { EXPRESS_AS_ROLES, STYLE_DEGREE_MAX, STYLE_DEGREE_MIN } from "@/lib/ssml/marks";
+import { BREAK_STRENGTH_MS, parseBreakTime, type SsmlIssue } from "@/lib/ssml/parse";
+import { parseXml, SsmlSyntaxError, type XmlElement } from "@/lib/ssml/xml";
+
+// Checks SSML before it is sent to a provider: well formed, only allow-listed elements and attributes with sane
+// values, allowed voices, bounded length and nesting. Every issue names the element and its offset in the
+// document, so the editor can point at it.
+
+export const MAX_SSML_CHARS = 20000;
+export const MAX_SSML_DEPTH = 12;
+export const MAX_BREAK_MS = 10000;
+
+export const SSML_LANG = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// Problem with an attribute value, or null when it is fine.
+type AttrCheck = (value: string) => string | null;
+
+const anyValue: AttrCheck = () => null;
+const oneOf =
+  (values: readonly string[]): AttrCheck =>
+  (v) =>
+    values.includes(v) ? null : `must be one of ${values.join(", ")}`;
+const matching =
+  (re: RegExp, what: string): AttrCheck =>
+  (v) =>
+    re.test(v) ? null : `must be ${what}`;
+
+const NUMBER = "[+-]?\\d+(?:\\.\\d+)?";
+const pitch = matching(
+  new RegExp(`^(?:x-low|low|medium|high|x-high|default|${NUMBER}(?:Hz|st|%))$`),
+  "a level (x-low … x-high) or a change such as +10%, -2st or +20Hz"
+);
+const rate = matching(
+  new RegExp(`^(?:x-slow|slow|medium|fast|x-fast|default|${NUMBER}%|\\d+(?:\\.\\d+)?)$`),
+  "a level (x-slow … x-fast), a change such as -15% or a multiplier such as 1.2"
+);
+const volume = matching(
+  new RegExp(`^(?:silent|x-soft|soft|medium|loud|x-loud|default|${NUMBER}(?:%|dB)?)$`),
+  "a level (silent … x-loud), a change such as +20% or a number"
+);
+const duration = matching(/^\d+(?:\.\d+)?(?:ms|s)$/, "a duration such as 500ms or 2s");
+const breakTime: AttrCheck = (v) => {
+  const ms = parseBreakTime(v);
+  if (ms == null) return "must be a duration such as 500ms or 2s";
+  return ms > MAX_BREAK_MS ? `must be at most ${MAX_BREAK_MS}ms` : null;
+};
+const styleDegree: AttrCheck = (v) => {
+  const n = Number(v);
+  const inRange = /^\d+(?:\.\d+)?$/.test(v) && n >= STYLE_DEGREE_MIN && n <= STYLE_DEGREE_MAX;
+  return inRange ? null : `must be a number from ${STYLE_DEGREE_MIN} to ${STYLE_DEGREE_MAX}`;
+};
+
+type ElementRule = {
+  attrs: Record<string, AttrCheck>;
+  required?: string[];
+  parents?: string[]; // allowed direct parents; any when omitted
+  empty?: boolean;
+};
+
+const ELEMENTS: Record<string, ElementRule> = {
+  speak: {
+    attrs: {
+      version: oneOf(["1.0"]),
+      xmlns: anyValue,
+      "xmlns:mstts": anyValue,
+      "xml:lang": matching(SSML_LANG, "a language tag such as en-US")
+    },
+    required: ["xml:lang"]
+  },
+  voice: { attrs: { name: anyValue }, required: ["name"], parents: ["speak"] },
+  prosody: {
+    attrs: {
+      pitch,
+      rate,
+      volume,
+      range: pitch,
+      duration,
+      contour: matching(/^[\s\d()%,+.Hzst-]+$/, "a list of (position, pitch) pairs")
+    }
+  },
+  emphasis: { attrs: { level: oneOf(["reduced", "none", "moderate", "strong"]) } },
+  break: { attrs: { time: breakTime, strength: oneOf(Object.keys(BREAK_STRENGTH_MS)) }, empty: true },
+  "mstts:express-as": {
+    attrs: {
+      style: matching(/^[a-z][a-z-]*$/i, "a style name such as cheerful"),
+      styledegree: styleDegree,
+      role: oneOf(EXPRESS_AS_ROLES)
+    },
+    required: ["style"]
+  },
+  "say-as": {
+    attrs: {
+      "interpret-as": matching(/^[a-z][a-z-]*$/, "a type such as date or cardinal"),
+      format: anyValue,
+      detail: anyValue
+    },
+    required: ["interpret-as"]
+  },
+  phoneme: { attrs: { alphabet: oneOf(["ipa", "sapi", "ups", "x-sampa"]), ph: anyValue }, required: ["ph"] },
+  lexicon: {
+    attrs: { uri: matching(/^https:\/\/\S+$/, "an https URL") },
+    required: ["uri"],
+    parents: ["voice"],
+    empty: true
+  }
+};
+
+export type SsmlValidationOptions = {
+  isAllowedVoice: (name: string) => boolean;
+  // express-as styles and roles of a voice; null when unknown, in which case any style is accepted.
+  expressAsSupport?: (voiceName: string) => { styles: readonly string[]; roles: readonly string[] } | null;
+};
+
+// All issues found; an empty list means the document may be sent.
+export function validateSsml(ssml: string, opts: SsmlValidationOptions): SsmlIssue[] {
+  if (ssml.length > MAX_SSML_CHARS) {
+    return [{ element: null, offset: MAX_SSML_CHARS, message: `SSML is longer than ${MAX_SSML_CHARS} characters` }];
+  }
+  let root: XmlElement;
+  try {
+    root = parseXml(ssml);
+  } catch (e) {
+    if (e instanceof SsmlSyntaxError) return [{ element: null, offset: e.offset, message: e.message }];
+    throw e;
+  }
+
+  const issues: SsmlIssue[] = [];
+  let voices = 0;
+
+  // voice: name of the enclosing <voice>, if any.
+  function check(el: XmlElement, parent: XmlElement | null, depth: number, voice: string | null, inStyle: boolean) {
+    const issue = (message: string) => issues.push({ element: el.name, offset: el.offset, message });
+    const rule = ELEMENTS[el.name];
+    if (!rule) return issue(`<${el.name}> is not allowed`);
+    if (depth > MAX_SSML_DEPTH) return issue(`Elements are nested more than ${MAX_SSML_DEPTH} deep`);
+    if (el.name === "speak" && parent) issue("<speak> cannot be nested");
+    if (rule.parents && !rule.parents.includes(parent?.name ?? "")) {
+      issue(`<${el.name}> must be directly inside <${rule.parents.join("> or <")}>`);
+    }
+    if (el.name === "mstts:express-as") {
+      if (inStyle) issue("express-as cannot be nested in another express-as");
+      const support = voice ? opts.expressAsSupport?.(voice) : null;
+      if (support && el.attrs.style && !support.styles.includes(el.attrs.style)) {
+        issue(`Voice "${voice}" does not support the style "${el.attrs.style}"`);
+      }
+      if (support && el.attrs.role && !support.roles.includes(el.attrs.role)) {
+        issue(`Voice "${voice}" does not support the role "${el.attrs.role}"`);
+      }
+    }
+
+    for (const [name, value] of Object.entries(el.attrs)) {
+      const attrCheck = rule.attrs[name];
+      const problem = attrCheck ? attrCheck(value) : `is not allowed on <${el.name}>`;
+      if (problem) issue(`${name}="${value}" ${problem}`);
+    }
+    for (const name of rule.required ?? []) {
+      if (!(name in el.attrs)) issue(`<${el.name}> needs a "${name}" attribute`);
+    }
+    if (el.name === "voice") {
+      voices++;
+      if (el.attrs.name && !opts.isAllowedVoice(el.attrs.name)) issue(`Voice "${el.attrs.name}" is not allowed`);
+    }
+    if (rule.empty && el.children.some((c) => c.type === "element" || c.text.trim())) {
+      issue(`<${el.name}> must be empty`);
+    }
+
+    const childVoice = el.name === "voice" ? (el.attrs.name ?? "") : voice;
+    for (const child of el.children) {
+      if (child.type === "element") {
+        check(child, el, depth + 1, childVoice, inStyle || el.name === "mstts:express-as");
+      } else if (childVoice == null && child.text.trim()) {
+        issues.push({ element: el.name, offset: child.offset, message: "Text must be inside a <voice> element" });
+      }
+    }
+  }
+
+  if (root.name !== "speak") {
+    const message = `The root element must be <speak>, not <${root.name}>`;
+    return [{ element: root.name, offset: root.offset, message }];
+  }
+  check(root, null, 1, null, false);
+  if (!voices) issues.push({ element: "speak", offset: root.offset, message: "The document needs a <voice> element" });
+  return issues.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,124 @@
+// Minimal XML reader for SSML documents: elements, attributes, text, comments, CDATA and the XML declaration.
+// Every node keeps its offset in the source so problems can be pointed at. DTDs are rejected.
+
+export type XmlText = { type: "text"; text: string; offset: number };
+export type XmlElement = {
+  type: "element";
+  name: string; // with prefix, e.g. "mstts:express-as"
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  offset: number;
+};
+export type XmlNode = XmlText | XmlElement;
+
+// Not well-formed XML; offset is the character index in the source.
+export class SsmlSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+    this.name = "SsmlSyntaxError";
+  }
+}
+
+// 1-based line and column of an offset, for messages shown to researchers.
+export function lineAndColumn(source: string, offset: number) {
+  const before = source.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(raw: string, offset: number) {
+  return raw.replace(/&([^;&\s]*)(;?)/g, (match, name: string, semicolon: string, i: number) => {
+    const at = offset + i;
+    if (!semicolon) throw new SsmlSyntaxError('Unescaped "&" (write &amp;)', at);
+    if (name in ENTITIES) return ENTITIES[name];
+    const code = /^#x[0-9a-f]+$/i.test(name) ? parseInt(name.slice(2), 16) : /^#\d+$/.test(name) ? Number(name.slice(1)) : NaN;
+    if (!Number.isInteger(code) || code > 0x10ffff) throw new SsmlSyntaxError(`Unknown entity ${match}`, at);
+    return String.fromCodePoint(code);
+  });
+}
+
+const NAME = "[A-Za-z_][\\w.:-]*";
+const START_TAG = new RegExp(`<(${NAME})((?:\\s+${NAME}\\s*=\\s*(?:"[^"]*"|'[^']*'))*)\\s*(/?)>`, "y");
+const END_TAG = new RegExp(`</(${NAME})\\s*>`, "y");
+const ATTRIBUTE = new RegExp(`(${NAME})\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "g");
+
+// Parses a document and returns its root element; throws SsmlSyntaxError when it is not well formed.
+export function parseXml(source: string): XmlElement {
+  let root: XmlElement | null = null;
+  const open: XmlElement[] = [];
+  let pos = 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) throw new SsmlSyntaxError(`Unclosed ${what}`, pos);
+    const body = source.slice(pos, end + terminator.length);
+    pos = end + terminator.length;
+    return body;
+  };
+
+  while (pos < source.length) {
+    const parent = open[open.length - 1];
+    const lt = source.indexOf("<", pos);
+    const textEnd = lt < 0 ? source.length : lt;
+
+    if (textEnd > pos) {
+      const raw = source.slice(pos, textEnd);
+      if (parent) parent.children.push({ type: "text", text: decodeEntities(raw, pos), offset: pos });
+      else if (raw.trim()) throw new SsmlSyntaxError("Text outside the root element", pos);
+      pos = textEnd;
+      continue;
+    }
+
+    const at = pos;
+    if (source.startsWith("<?", pos)) {
+      const body = skipPast("?>", "<?…?>");
+      if (!/^<\?xml\s/.test(body) || at !== source.length - source.trimStart().length) {
+        throw new SsmlSyntaxError("Only an XML declaration at the very start is allowed", at);
+      }
+    } else if (source.startsWith("<!--", pos)) {
+      skipPast("-->", "comment");
+    } else if (source.startsWith("<![CDATA[", pos)) {
+      const body = skipPast("]]>", "CDATA section");
+      if (!parent) throw new SsmlSyntaxError("Text outside the root element", at);
+      parent.children.push({ type: "text", text: body.slice("<![CDATA[".length, -"]]>".length), offset: at });
+    } else if (source.startsWith("<!", pos)) {
+      throw new SsmlSyntaxError("DOCTYPE and other declarations are not allowed", at);
+    } else if (source.startsWith("</", pos)) {
+      END_TAG.lastIndex = pos;
+      const m = END_TAG.exec(source);
+      if (!m) throw new SsmlSyntaxError("Malformed closing tag", at);
+      const element = open.pop();
+      if (!element) throw new SsmlSyntaxError(`Unexpected </${m[1]}>`, at);
+      if (element.name !== m[1]) throw new SsmlSyntaxError(`</${m[1]}> does not close <${element.name}>`, at);
+      pos = END_TAG.lastIndex;
+    } else {
+      START_TAG.lastIndex = pos;
+      const m = START_TAG.exec(source);
+      if (!m) throw new SsmlSyntaxError("Malformed tag", at);
+      const attrs: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of m[2].matchAll(ATTRIBUTE)) {
+        if (name in attrs) throw new SsmlSyntaxError(`Duplicate attribute "${name}" on <${m[1]}>`, at);
+        const value = doubleQuoted ?? singleQuoted;
+        if (value.includes("<")) throw new SsmlSyntaxError(`"<" in the value of "${name}"`, at);
+        attrs[name] = decodeEntities(value, at);
+      }
+      const element: XmlElement = { type: "element", name: m[1], attrs, children: [], offset: at };
+      if (parent) parent.children.push(element);
+      else if (root) throw new SsmlSyntaxError("Only one root element is allowed", at);
+      else root = element;
+      if (!m[3]) open.push(element);
+      pos = START_TAG.lastIndex;
+    }
+  }
+
+  if (open.length) {
+    const unclosed = open[open.length - 1];
+    throw new SsmlSyntaxError(`<${unclosed.name}> is not closed`, unclosed.offset);
+  }
+  if (!root) throw new SsmlSyntaxError("The document has no root element", 0);
+  return root;
+}
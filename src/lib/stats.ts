@@ -0,0 +1,48 @@
+// Descriptive statistics for the researcher dashboard. Plain functions over number arrays;
+// empty input gives null rather than NaN so results serialize cleanly to JSON.
+
+export type Descriptives = {
+  n: number;
+  mean: number | null;
+  median: number | null;
+  sd: number | null; // sample SD (n - 1); null for n < 2
+  min: number | null;
+  max: number | null;
+};
+
+export function mean(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null;
+}
+
+export function median(xs: number[]) {
+  if (!xs.length) return null;
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function sampleSd(xs: number[]) {
+  if (xs.length < 2) return null;
+  const m = mean(xs)!;
+  return Math.sqrt(xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+export function describe(xs: number[]): Descriptives {
+  return {
+    n: xs.length,
+    mean: mean(xs),
+    median: median(xs),
+    sd: sampleSd(xs),
+    min: xs.length ? Math.min(...xs) : null,
+    max: xs.length ? Math.max(...xs) : null
+  };
+}
+
+// Counts per integer value in [min, max], e.g. a 1-7 Likert distribution -> [n1, ..., n7].
+export function histogram(xs: number[], min: number, max: number) {
+  const counts = Array.from({ length: max - min + 1 }, () => 0);
+  for (const x of xs) {
+    if (Number.isInteger(x) && x >= min && x <= max) counts[x - min]++;
+  }
+  return counts;
+}
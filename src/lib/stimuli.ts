@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { Stimulus } from "@prisma/client";
+import type { StimulusInfo } from "@/lib/types";
+
+export const StimulusFieldsSchema = z.object({
+  title: z.string().min(1).max(200),
+  artist: z.string().max(200).nullable().optional(),
+  year: z.number().int().min(-3000).max(3000).nullable().optional(),
+  movement: z.string().max(100).nullable().optional(),
+  styleTags: z.array(z.string().min(1).max(60)).max(20).optional(),
+  // Served from public/, so it must be an absolute site path.
+  filePath: z.string().startsWith("/").max(500),
+  altText: z.string().min(1).max(1000),
+  active: z.boolean().optional()
+});
+
+// String lists (styleTags, styleHints) are stored as JSON strings (SQLite has no array columns).
+export function parseStringList(raw: string): string[] {
+  try {
+    const tags = JSON.parse(raw);
+    return Array.isArray(tags) ? tags.filter((t): t is string => typeof t === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toStimulusInfo(row: Stimulus): StimulusInfo {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    year: row.year,
+    movement: row.movement,
+    styleTags: parseStringList(row.styleTags),
+    filePath: row.filePath,
+    altText: row.altText,
+    active: row.active
+  };
+}
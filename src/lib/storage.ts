@@ -0,0 +1,45 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile, access } from "node:fs/promises";
+import path from "node:path";
+
+// Local disk storage for uploaded images and generated assets.
+// Swap for object storage (S3/R2) when deploying; callers only see relative paths.
+export const STORAGE_DIR = path.resolve(process.env.STORAGE_DIR ?? "storage");
+
+export function sha256Hex(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Resolve a path relative to STORAGE_DIR, refusing anything that would escape it.
+export function resolveStoragePath(relPath: string) {
+  const abs = path.resolve(STORAGE_DIR, relPath);
+  if (abs !== STORAGE_DIR && !abs.startsWith(STORAGE_DIR + path.sep)) {
+    throw new Error(`Refusing to access path outside storage: ${relPath}`);
+  }
+  return abs;
+}
+
+async function exists(abs: string) {
+  return access(abs).then(
+    () => true,
+    () => false
+  );
+}
+
+// Store bytes as `<dir>/<sha256>.<ext>`. Identical content always maps to the same file,
+// so writing it twice is a no-op.
+export async function writeContentAddressed(dir: string, data: Buffer, ext: string) {
+  const sha256 = sha256Hex(data);
+  const relPath = path.posix.join(dir, `${sha256}.${ext}`);
+  const abs = resolveStoragePath(relPath);
+
+  if (!(await exists(abs))) {
+    await mkdir(path.dirname(abs), { recursive: true });
+    await writeFile(abs, data);
+  }
+  return { sha256, relPath };
+}
+
+export async function readStored(relPath: string) {
+  return readFile(resolveStoragePath(relPath));
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { Study } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { shuffled } from "@/lib/counterbalance";
+import { DESCRIBE_MODELS } from "@/lib/describe";
+import { parseStringList } from "@/lib/stimuli";
+import {
+  ORDERING_SCHEMES,
+  STUDY_STATUSES,
+  type OrderingScheme,
+  type StudyInfo,
+  type StudyStatus
+} from "@/lib/types";
+
+const ConditionsSchema = z
+  .array(z.enum(["tts", "emotion", "emotion_music"]))
+  .min(2)
+  .max(3)
+  .refine((c) => new Set(c).size === c.length, "Conditions must be distinct.");
+
+export const StudyFieldsSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{0,59}$/, "Use lower-kebab-case study slugs"),
+  name: z.string().min(1).max(200),
+  status: z.enum(STUDY_STATUSES).optional(),
+  conditions: ConditionsSchema.optional(),
+  stimulusIds: z.array(z.string().min(1)).max(500).optional(),
+  questionnaireKeys: z.array(z.string().min(1)).max(50).optional(),
+  stimuliPerParticipant: z.number().int().positive().nullable().optional(),
+  ordering: z.enum(ORDERING_SCHEMES).optional(),
+  describeModel: z.enum(DESCRIBE_MODELS).nullable().optional()
+});
+export type StudyFields = z.infer<typeof StudyFieldsSchema>;
+
+// Fields that shape the counterbalancing; they are fixed once a study has sessions.
+export const DESIGN_FIELDS = ["conditions", "ordering"] as const;
+
+export function toStudyInfo(row: Study): StudyInfo {
+  const conditions = ConditionsSchema.safeParse(parseStringList(row.conditions));
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    status: row.status as StudyStatus,
+    conditions: conditions.success ? conditions.data : ["tts", "emotion", "emotion_music"],
+    stimulusIds: parseStringList(row.stimulusIds),
+    questionnaireKeys: parseStringList(row.questionnaireKeys),
+    stimuliPerParticipant: row.stimuliPerParticipant,
+    ordering: row.ordering as OrderingScheme,
+    describeModel: row.describeModel,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+// Lists are stored as JSON strings, like the other lists in this schema.
+export function toStudyData<T extends Partial<StudyFields>>(fields: T) {
+  const { conditions, stimulusIds, questionnaireKeys, ...rest } = fields;
+  return {
+    ...rest,
+    ...(conditions && { conditions: JSON.stringify(conditions) }),
+    ...(stimulusIds && { stimulusIds: JSON.stringify(stimulusIds) }),
+    ...(questionnaireKeys && { questionnaireKeys: JSON.stringify(questionnaireKeys) })
+  };
+}
+
+export function findStudy(ref: string) {
+  return prisma.study.findFirst({ where: { OR: [{ id: ref }, { slug: ref }] } });
+}
+
+export async function sessionStudy(sessionId: string) {
+  const session = await prisma.studySession.findUnique({ where: { id: sessionId }, include: { study: true } });
+  return session ? toStudyInfo(session.study) : null;
+}
+
+// The study a participant link refers to (?study=<slug>). Links without one fall back to the only
+// active study, so a deployment running a single study keeps its plain /study link.
+export async function resolveStudy(ref: string | null | undefined) {
+  if (ref) return findStudy(ref);
+  const active = await prisma.study.findMany({ where: { status: "active" }, take: 2 });
+  return active.length === 1 ? active[0] : null;
+}
+
+// Questionnaire filter for a study: its own keys, or every questionnaire when it names none.
+export function questionnaireKeysWhere(study: Pick<StudyInfo, "questionnaireKeys">) {
+  return study.questionnaireKeys.length ? { key: { in: study.questionnaireKeys } } : {};
+}
+
+// Stimuli for a new participant: the study's active stimuli that have an approved pack. When a study shows
+// only some of them, the least-assigned ones (within the study) are picked, so stimuli are covered evenly;
+// the picked ones are presented in random order.
+export async function pickStudyStimuli(study: StudyInfo): Promise<string[]> {
+  const candidates = await prisma.stimulus.findMany({
+    where: {
+      active: true,
+      packs: { some: { status: "approved" } },
+      ...(study.stimulusIds.length ? { id: { in: study.stimulusIds } } : {})
+    },
+    select: { id: true }
+  });
+  const ids = candidates.map((s) => s.id);
+  const count = study.stimuliPerParticipant ?? ids.length;
+  if (count >= ids.length) return shuffled(ids);
+
+  const usage = await prisma.conditionAssignment.groupBy({
+    by: ["stimulusId"],
+    where: { stimulusId: { in: ids }, session: { studyId: study.id } },
+    _count: { _all: true }
+  });
+  const assigned = new Map(usage.map((u) => [u.stimulusId, u._count._all]));
+  // Shuffling first breaks ties between equally used stimuli at random (the sort is stable).
+  const leastUsed = shuffled(ids).sort((a, b) => (assigned.get(a) ?? 0) - (assigned.get(b) ?? 0));
+  return leastUsed.slice(0, count);
+}
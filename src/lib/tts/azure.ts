@@ -0,0 +1,110 @@
+import { escapeXml, validateSsml } from "@/lib/ssml";
+import { AZURE_HD_VOICES, expressAsSupport } from "@/lib/tts/azureVoices";
+import { audioDurationMs } from "@/lib/tts/duration";
+import { TtsConfigError, TtsProviderError, type TtsProvider } from "@/lib/tts/types";
+
+export const DEFAULT_AZURE_VOICE = "en-US-JennyNeural";
+export const DEFAULT_AZURE_OUTPUT_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
+
+// Output formats callers may request; anything else is rejected before it reaches Azure.
+export const AZURE_OUTPUT_FORMATS = [
+  "audio-16khz-32kbitrate-mono-mp3",
+  "audio-16khz-128kbitrate-mono-mp3",
+  "audio-24khz-48kbitrate-mono-mp3",
+  "audio-24khz-96kbitrate-mono-mp3",
+  "audio-24khz-160kbitrate-mono-mp3",
+  "audio-48khz-96kbitrate-mono-mp3",
+  "audio-48khz-192kbitrate-mono-mp3",
+  "riff-16khz-16bit-mono-pcm",
+  "riff-24khz-16bit-mono-pcm",
+  "riff-48khz-16bit-mono-pcm",
+  "ogg-16khz-16bit-mono-opus",
+  "ogg-24khz-16bit-mono-opus",
+  "ogg-48khz-16bit-mono-opus",
+  "webm-16khz-16bit-mono-opus",
+  "webm-24khz-16bit-mono-opus"
+] as const;
+
+// The default voice, the workbench's HD voices and any listed in AZURE_TTS_VOICES (comma-separated).
+export function isAllowedAzureVoice(name: string) {
+  if (name === DEFAULT_AZURE_VOICE || AZURE_HD_VOICES.some((v) => v.value === name)) return true;
+  return (process.env.AZURE_TTS_VOICES ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .includes(name);
+}
+
+// Issues that keep an SSML document from being sent to Azure; empty when it may be sent.
+export function validateAzureSsml(ssml: string) {
+  return validateSsml(ssml, { isAllowedVoice: isAllowedAzureVoice, expressAsSupport });
+}
+
+// X-Microsoft-OutputFormat names encode the container: "...-mp3", "riff-...", "ogg-...", "webm-...".
+export function contentTypeForAzureFormat(outputFormat: string) {
+  if (outputFormat.endsWith("-mp3")) return "audio/mpeg";
+  if (outputFormat.startsWith("riff-")) return "audio/wav";
+  if (outputFormat.startsWith("ogg-")) return "audio/ogg";
+  if (outputFormat.startsWith("webm-")) return "audio/webm";
+  return "application/octet-stream";
+}
+
+export function buildPlainSsml(opts: { text: string; voiceName: string; lang: string }) {
+  // “Natural/default” speaking: no <prosody>, no <mstts:express-as>
+  const safeText = escapeXml(opts.text);
+  return `<?xml version="1.0" encoding="utf-8"?>
+<speak version="1.0"
+  xmlns="http://www.w3.org/2001/10/synthesis"
+  xmlns:mstts="https://www.w3.org/2001/mstts"
+  xml:lang="${opts.lang}">
+  <voice name="${opts.voiceName}">
+    ${safeText}
+  </voice>
+</speak>`;
+}
+
+export function getAzureSpeechConfig() {
+  const key = process.env.SPEECH_KEY || process.env.AZURE_SPEECH_KEY;
+  const region = process.env.SPEECH_REGION || process.env.AZURE_SPEECH_REGION;
+  if (!key || !region) {
+    throw new TtsConfigError("Missing SPEECH_KEY / SPEECH_REGION environment variables (Azure Speech).");
+  }
+  return { key, region };
+}
+
+export async function synthesizeAzureSsml(ssml: string, outputFormat = DEFAULT_AZURE_OUTPUT_FORMAT) {
+  const { key, region } = getAzureSpeechConfig();
+  const endpoint = `https://${region}.tts.speech.microsoft.com/cognitiveservices/v1`;
+
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Ocp-Apim-Subscription-Key": key,
+      "Content-Type": "application/ssml+xml",
+      "X-Microsoft-OutputFormat": outputFormat,
+      "User-Agent": "art-audio-study-app",
+    },
+    body: ssml,
+  });
+
+  if (!res.ok) {
+    const errText = await res.text().catch(() => "");
+    throw new TtsProviderError(`Azure TTS failed (${res.status}): ${errText || res.statusText}`, res.status);
+  }
+
+  return Buffer.from(await res.arrayBuffer());
+}
+
+export const azureProvider: TtsProvider = {
+  id: "azure",
+  label: "Azure Speech (SSML)",
+  model: null,
+  defaultOutputFormat: DEFAULT_AZURE_OUTPUT_FORMAT,
+  async synthesize({ input, voice, outputFormat = DEFAULT_AZURE_OUTPUT_FORMAT }) {
+    const ssml =
+      input.kind === "ssml" ? input.ssml : buildPlainSsml({ text: input.text, voiceName: voice ?? DEFAULT_AZURE_VOICE, lang: "en-US" });
+    const audio = await synthesizeAzureSsml(ssml, outputFormat);
+    const contentType = contentTypeForAzureFormat(outputFormat);
+    const format = contentType === "audio/wav" ? "wav" : (outputFormat.split("-").pop() ?? outputFormat);
+    return { audio, contentType, format, durationMs: audioDurationMs(audio, format) };
+  }
+};
@@ -0,0 +1,41 @@
+import type { ExpressAsRole } from "@/lib/ssml";
+
+// Azure HD voices offered in the workbench for condition 2. Client-safe; the server also accepts them in
+// /api/azure-tts and /api/packs (see isAllowedAzureVoice in src/lib/tts/azure.ts).
+// `styles` and `roles` are the mstts:express-as values each voice supports, as listed in Azure's voice gallery;
+// check them there when adding a voice. The editor only offers these, and the server rejects any others. Voices
+// only listed in AZURE_TTS_VOICES are unknown here, so any style and role is accepted for them.
+export const AZURE_HD_VOICES = [
+  {
+    value: "en-US-Jenny:DragonHDLatestNeural",
+    label: "Jenny (HD) — female",
+    styles: ["cheerful", "sad", "excited", "friendly", "hopeful", "whispering", "terrified", "angry"],
+    roles: []
+  },
+  {
+    value: "en-US-Aria:DragonHDLatestNeural",
+    label: "Aria (HD) — female",
+    styles: ["cheerful", "sad", "excited", "friendly", "hopeful", "whispering", "empathetic", "narration-professional"],
+    roles: []
+  },
+  { value: "en-US-Ava3:DragonHDLatestNeural", label: "Ava3 (HD) — female", styles: [], roles: [] },
+  { value: "en-US-Alloy:DragonHDLatestNeural", label: "Alloy (HD) — male", styles: [], roles: [] },
+  {
+    value: "en-US-Davis:DragonHDLatestNeural",
+    label: "Davis (HD) — male",
+    styles: ["cheerful", "sad", "excited", "friendly", "hopeful", "whispering", "calm"],
+    roles: []
+  }
+] as const satisfies readonly {
+  value: string;
+  label: string;
+  styles: readonly string[];
+  roles: readonly ExpressAsRole[];
+}[];
+
+export type AzureHdVoice = (typeof AZURE_HD_VOICES)[number]["value"];
+
+// Styles and roles a voice supports; null for voices not in the list, whose styles are not known here.
+export function expressAsSupport(voiceName: string): { styles: readonly string[]; roles: readonly ExpressAsRole[] } | null {
+  return AZURE_HD_VOICES.find((v) => v.value === voiceName) ?? null;
+}
@@ -0,0 +1,38 @@
+// Duration estimates from raw audio bytes, so every provider can report duration metadata.
+
+export function wavDurationMs(buf: Buffer): number | null {
+  if (buf.length < 44 || buf.toString("latin1", 0, 4) !== "RIFF" || buf.toString("latin1", 8, 12) !== "WAVE") return null;
+  const byteRate = buf.readUInt32LE(28);
+  const dataSize = buf.readUInt32LE(40);
+  return byteRate > 0 ? Math.round((dataSize / byteRate) * 1000) : null;
+}
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Assumes constant bitrate (true for the TTS providers we use): bytes after the ID3 tag / bitrate of the first frame.
+export function mp3DurationMs(buf: Buffer): number | null {
+  let offset = 0;
+  if (buf.length >= 10 && buf.toString("latin1", 0, 3) === "ID3") {
+    const size = ((buf[6] & 0x7f) << 21) | ((buf[7] & 0x7f) << 14) | ((buf[8] & 0x7f) << 7) | (buf[9] & 0x7f);
+    offset = 10 + size;
+  }
+
+  for (; offset + 4 <= buf.length; offset++) {
+    if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) continue;
+    const version = (buf[offset + 1] >> 3) & 0x03; // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+    const layer = (buf[offset + 1] >> 1) & 0x03; // 1 = Layer III
+    const bitrateIndex = (buf[offset + 2] >> 4) & 0x0f;
+    if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15) continue;
+
+    const kbps = (version === 3 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[bitrateIndex];
+    return Math.round(((buf.length - offset) * 8) / kbps);
+  }
+  return null;
+}
+
+export function audioDurationMs(buf: Buffer, format: string): number | null {
+  if (format === "wav") return wavDurationMs(buf);
+  if (format === "mp3") return mp3DurationMs(buf);
+  return null;
+}
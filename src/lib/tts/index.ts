@@ -0,0 +1,29 @@
+import { azureProvider } from "@/lib/tts/azure";
+import { localProvider } from "@/lib/tts/local";
+import { openaiProvider } from "@/lib/tts/openai";
+import { TtsConfigError, type TtsProvider } from "@/lib/tts/types";
+
+export * from "@/lib/tts/types";
+
+export const TTS_PROVIDERS: Record<string, TtsProvider> = {
+  openai: openaiProvider,
+  azure: azureProvider,
+  local: localProvider
+};
+
+// "speech" renders plain text (condition 1 and 3), "ssml" renders researcher-authored SSML (condition 2).
+export type TtsRole = "speech" | "ssml";
+
+const DEFAULT_PROVIDER: Record<TtsRole, string> = { speech: "openai", ssml: "azure" };
+
+// TTS_PROVIDER overrides both roles (e.g. TTS_PROVIDER=local for offline rehearsals);
+// TTS_SPEECH_PROVIDER / TTS_SSML_PROVIDER override a single role.
+export function getTtsProvider(role: TtsRole): TtsProvider {
+  const roleVar = role === "speech" ? process.env.TTS_SPEECH_PROVIDER : process.env.TTS_SSML_PROVIDER;
+  const id = (roleVar || process.env.TTS_PROVIDER || DEFAULT_PROVIDER[role]).trim().toLowerCase();
+  const provider = TTS_PROVIDERS[id];
+  if (!provider) {
+    throw new TtsConfigError(`Unknown TTS provider "${id}". Expected one of: ${Object.keys(TTS_PROVIDERS).join(", ")}.`);
+  }
+  return provider;
+}
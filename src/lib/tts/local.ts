@@ -0,0 +1,142 @@
+import { ssmlToPlainText } from "@/lib/tts/ssmlText";
+import type { TtsProvider } from "@/lib/tts/types";
+
+// Offline stand-in for rehearsals without keys or network: a tiny deterministic formant synthesizer.
+// It is not intelligible speech, but it has speech-like rhythm (one vowel per syllable, pauses at
+// word and sentence boundaries, falling pitch per sentence), honours SSML <break>s, and its length
+// scales with the text, so players, telemetry and timing behave as they would with a real voice.
+
+const SAMPLE_RATE = 16000;
+
+// First two formants (Hz) per vowel letter.
+const VOWEL_FORMANTS: Record<string, [number, number]> = {
+  a: [800, 1200],
+  e: [500, 1900],
+  i: [320, 2300],
+  o: [500, 900],
+  u: [350, 800],
+  y: [320, 2100]
+};
+
+type Segment = { kind: "vowel"; formants: [number, number]; ms: number; pitch: number } | { kind: "silence"; ms: number };
+
+// Stable per-voice base pitch, so different voice names sound different but always the same.
+function basePitchFor(voice: string | undefined) {
+  let h = 0;
+  for (const ch of voice ?? "") h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return 105 + (h % 110);
+}
+
+function syllableVowels(word: string) {
+  const groups = word.toLowerCase().match(/[aeiouy]+/g) ?? [];
+  return groups.length ? groups.map((g) => g[0]) : word ? ["e"] : [];
+}
+
+// Split SSML into text chunks and <break time="..."> pauses, in document order.
+function tokenize(input: { kind: "text"; text: string } | { kind: "ssml"; ssml: string }) {
+  if (input.kind === "text") return [{ text: input.text, breakMs: 0 }];
+  const chunks: { text: string; breakMs: number }[] = [];
+  const re = /<break\b[^>]*?time="(\d+(?:\.\d+)?)(ms|s)"[^>]*\/?>/g;
+  let last = 0;
+  for (const m of input.ssml.matchAll(re)) {
+    chunks.push({ text: ssmlToPlainText(input.ssml.slice(last, m.index)), breakMs: 0 });
+    chunks.push({ text: "", breakMs: Number(m[1]) * (m[2] === "s" ? 1000 : 1) });
+    last = m.index! + m[0].length;
+  }
+  chunks.push({ text: ssmlToPlainText(input.ssml.slice(last)), breakMs: 0 });
+  return chunks;
+}
+
+function planSegments(chunks: { text: string; breakMs: number }[], basePitch: number): Segment[] {
+  const segments: Segment[] = [];
+  for (const chunk of chunks) {
+    if (chunk.breakMs) {
+      segments.push({ kind: "silence", ms: chunk.breakMs });
+      continue;
+    }
+    for (const sentence of chunk.text.split(/(?<=[.!?])\s+/).filter(Boolean)) {
+      const words = sentence.split(/\s+/).filter(Boolean);
+      const vowelsTotal = words.reduce((n, w) => n + syllableVowels(w).length, 0) || 1;
+      let k = 0;
+      for (const word of words) {
+        for (const v of syllableVowels(word)) {
+          // Declination: pitch falls ~25% across the sentence.
+          const pitch = basePitch * (1.1 - 0.25 * (k++ / vowelsTotal));
+          segments.push({ kind: "vowel", formants: VOWEL_FORMANTS[v], ms: 170, pitch });
+        }
+        segments.push({ kind: "silence", ms: /[,;:]$/.test(word) ? 220 : 60 });
+      }
+      segments.push({ kind: "silence", ms: 380 });
+    }
+  }
+  return segments;
+}
+
+// Two-pole resonator (Klatt-style) applied to a glottal pulse train.
+function renderVowel(out: Float32Array, start: number, seg: Extract<Segment, { kind: "vowel" }>) {
+  const n = Math.round((seg.ms / 1000) * SAMPLE_RATE);
+  const resonators = seg.formants.map((f, idx) => {
+    const bw = idx === 0 ? 80 : 120;
+    const c = -Math.exp((-2 * Math.PI * bw) / SAMPLE_RATE);
+    const b = 2 * Math.exp((-Math.PI * bw) / SAMPLE_RATE) * Math.cos((2 * Math.PI * f) / SAMPLE_RATE);
+    return { a: 1 - b - c, b, c, y1: 0, y2: 0 };
+  });
+  const period = SAMPLE_RATE / seg.pitch;
+  for (let i = 0; i < n; i++) {
+    const pulse = i % period < 1 ? 1 : 0;
+    let sample = 0;
+    for (const r of resonators) {
+      const y = r.a * pulse + r.b * r.y1 + r.c * r.y2;
+      r.y2 = r.y1;
+      r.y1 = y;
+      sample += y;
+    }
+    // Short attack/release to avoid clicks between syllables.
+    const env = Math.min(1, i / 160, (n - i) / 160);
+    out[start + i] = sample * env;
+  }
+  return n;
+}
+
+function encodeWav(samples: Float32Array) {
+  let peak = 0;
+  for (const s of samples) peak = Math.max(peak, Math.abs(s));
+  const gain = peak > 0 ? 0.6 / peak : 0;
+
+  const buf = Buffer.alloc(44 + samples.length * 2);
+  buf.write("RIFF", 0, "latin1");
+  buf.writeUInt32LE(36 + samples.length * 2, 4);
+  buf.write("WAVE", 8, "latin1");
+  buf.write("fmt ", 12, "latin1");
+  buf.writeUInt32LE(16, 16); // PCM chunk size
+  buf.writeUInt16LE(1, 20); // PCM
+  buf.writeUInt16LE(1, 22); // mono
+  buf.writeUInt32LE(SAMPLE_RATE, 24);
+  buf.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  buf.writeUInt16LE(2, 32); // block align
+  buf.writeUInt16LE(16, 34); // bits per sample
+  buf.write("data", 36, "latin1");
+  buf.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((s, i) => buf.writeInt16LE(Math.round(Math.max(-1, Math.min(1, s * gain)) * 32767), 44 + i * 2));
+  return buf;
+}
+
+export const localProvider: TtsProvider = {
+  id: "local",
+  label: "Local formant synthesizer (offline stand-in)",
+  model: "formant-v1",
+  defaultOutputFormat: "wav",
+  async synthesize({ input, voice }) {
+    const segments = planSegments(tokenize(input), basePitchFor(voice));
+    const totalMs = segments.reduce((ms, s) => ms + s.ms, 0);
+    const samples = new Float32Array(Math.ceil((totalMs / 1000) * SAMPLE_RATE) + SAMPLE_RATE / 10);
+
+    let cursor = 0;
+    for (const seg of segments) {
+      cursor += seg.kind === "vowel" ? renderVowel(samples, cursor, seg) : Math.round((seg.ms / 1000) * SAMPLE_RATE);
+    }
+
+    const audio = encodeWav(samples.subarray(0, cursor));
+    return { audio, contentType: "audio/wav", format: "wav", durationMs: Math.round((cursor / SAMPLE_RATE) * 1000) };
+  }
+};
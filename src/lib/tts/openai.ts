@@ -0,0 +1,46 @@
+import { getOpenAIClient } from "@/lib/openai";
+import { mp3DurationMs } from "@/lib/tts/duration";
+import { ssmlToPlainText } from "@/lib/tts/ssmlText";
+import type { TtsProvider } from "@/lib/tts/types";
+
+export const OPENAI_TTS_MODEL = "gpt-4o-mini-tts";
+
+export const OPENAI_VOICES = ["alloy","ash","ballad","coral","echo","fable","onyx","nova","sage","shimmer","verse"] as const;
+export type OpenAIVoice = (typeof OPENAI_VOICES)[number];
+
+export const EMOTION_PRESETS = ["neutral","warm","excited","somber","mysterious"] as const;
+export type EmotionPreset = (typeof EMOTION_PRESETS)[number];
+
+export function instructionsFor(mode: string, preset?: string) {
+  if (mode === "tts") return "Speak clearly and neutrally, as if narrating for a research study.";
+  // emotion / emotion_music both use expressive intonation; music mixing happens client-side in MVP.
+  const base = "Speak clearly with expressive intonation suitable for conveying an art style.";
+  const presetMap: Record<string, string> = {
+    neutral: "Keep it mostly neutral, slight expressiveness only.",
+    warm: "Use a warm, empathetic tone and gentle pacing.",
+    excited: "Use energetic, upbeat intonation without shouting.",
+    somber: "Use a calm, serious tone with slower pacing.",
+    mysterious: "Use a subtle, curious tone with light suspense."
+  };
+  return `${base} ${preset ? (presetMap[preset] ?? "") : ""}`.trim();
+}
+
+export const openaiProvider: TtsProvider = {
+  id: "openai",
+  label: "OpenAI TTS",
+  model: OPENAI_TTS_MODEL,
+  defaultOutputFormat: "mp3",
+  async synthesize({ input, voice = "coral", instructions }) {
+    const openai = getOpenAIClient();
+    const mp3 = await openai.audio.speech.create({
+      model: OPENAI_TTS_MODEL,
+      voice,
+      // OpenAI TTS has no SSML support; speak the text content.
+      input: input.kind === "text" ? input.text : ssmlToPlainText(input.ssml),
+      instructions
+      // Note: "speed" support depends on model; keep instructions-only for portability.
+    });
+    const audio = Buffer.from(await mp3.arrayBuffer());
+    return { audio, contentType: "audio/mpeg", format: "mp3", durationMs: mp3DurationMs(audio) };
+  }
+};
@@ -0,0 +1,13 @@
+// Plain text of an SSML document, for providers that cannot take SSML.
+export function ssmlToPlainText(ssml: string) {
+  return ssml
+    .replace(/<\?xml[^>]*\?>/g, "")
+    .replace(/<[^>]+>/g, " ")
+    .replaceAll("&lt;", "<")
+    .replaceAll("&gt;", ">")
+    .replaceAll("&quot;", '"')
+    .replaceAll("&apos;", "'")
+    .replaceAll("&amp;", "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,45 @@
+export type TtsInput = { kind: "text"; text: string } | { kind: "ssml"; ssml: string };
+
+export type TtsRequest = {
+  input: TtsInput;
+  voice?: string;
+  // Free-text delivery instructions (OpenAI); providers that cannot use them ignore them.
+  instructions?: string;
+  // Provider-specific output format, e.g. an Azure X-Microsoft-OutputFormat name.
+  outputFormat?: string;
+};
+
+export type TtsResult = {
+  audio: Buffer<ArrayBuffer>;
+  contentType: string;
+  format: string; // "mp3" | "wav" | ...
+  durationMs: number | null; // null when it cannot be determined from the bytes
+};
+
+export interface TtsProvider {
+  id: string; // "openai" | "azure" | "local"
+  label: string;
+  model: string | null;
+  // Output format used when the request does not ask for one; part of the audio cache key.
+  defaultOutputFormat: string;
+  synthesize(req: TtsRequest): Promise<TtsResult>;
+}
+
+// Provider is not configured (missing keys etc.); maps to HTTP 500.
+export class TtsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TtsConfigError";
+  }
+}
+
+// Upstream synthesis call failed; maps to HTTP 502.
+export class TtsProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "TtsProviderError";
+  }
+}
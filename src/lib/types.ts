@@ -1,7 +1,193 @@
 export type AudioMode = "tts" | "emotion" | "emotion_music";
 
+// Likert items asked once per condition; keys are ConditionResponse fields, names are used in exports.
+export const RATING_MEASURES = [
+  {
+    key: "ratingStyleComprehension",
+    name: "style_comprehension",
+    question: "How well did the audio help you understand the artwork’s style?"
+  },
+  { key: "ratingEmotionalFit", name: "emotional_fit", question: "How well did the audio’s emotion match the artwork’s style?" },
+  { key: "ratingEnjoyment", name: "enjoyment", question: "How enjoyable was the audio experience overall?" }
+] as const;
+export type RatingKey = (typeof RATING_MEASURES)[number]["key"];
+
 export type DescribeResult = {
   description: string;
   styleHints: string[];
   safetyNotes?: string;
 };
+
+// What /api/describe returns: the result plus the id of the stored Description row.
+export type DescribeResponse = DescribeResult & { descriptionId: string };
+
+export type StimulusInfo = {
+  id: string;
+  title: string;
+  artist: string | null;
+  year: number | null;
+  movement: string | null;
+  styleTags: string[];
+  filePath: string;
+  altText: string;
+  active: boolean;
+};
+
+export type PackStatus = "draft" | "approved" | "retired";
+
+// Frozen description + audio for one stimulus (see /api/packs).
+export type StimulusPackInfo = {
+  id: string;
+  stimulusId: string;
+  status: PackStatus;
+  approvedAt: string | null;
+  description: DescribeResponse;
+  ssml: string;
+  azureVoiceName: string;
+  openaiVoice: string;
+  emotionPreset: string;
+  // Audio for the generated conditions; the "tts" baseline speaks description.description in the browser.
+  audioUrls: Record<Exclude<AudioMode, "tts">, string>;
+};
+
+// Playback telemetry sent by AudioPlayer to /api/study/events.
+export const PLAYBACK_EVENT_TYPES = [
+  "play",
+  "pause",
+  "seek",
+  "ended",
+  "generate",
+  "regenerate",
+  "music_on",
+  "music_off",
+  // speechSynthesis baseline
+  "speech_start",
+  "speech_boundary",
+  "speech_end",
+  "speech_cancel"
+] as const;
+export type PlaybackEventType = (typeof PLAYBACK_EVENT_TYPES)[number];
+
+export type PlaybackEventInput = {
+  stimulusKey: string;
+  condition: AudioMode;
+  type: PlaybackEventType;
+  clientTs: number; // epoch ms
+  seq: number;
+  source?: "system" | "generated" | "frozen";
+  positionMs?: number;
+  durationMs?: number;
+  charIndex?: number;
+  charLength?: number;
+};
+
+// Listening metrics derived from the events of one session × stimulus × condition.
+export type PlaybackMetrics = {
+  sessionId: string;
+  stimulusKey: string;
+  condition: AudioMode;
+  listeningMs: number; // wall-clock time spent playing
+  completionRatio: number | null; // furthest point reached / length (0-1); null if never played
+  plays: number;
+  pauses: number;
+  seeks: number;
+  ended: number;
+  regenerations: number;
+  musicOnMs: number;
+};
+
+// Configurable questionnaires (see /api/questionnaires); rendered by QuestionnaireForm.
+export const QUESTIONNAIRE_ITEM_TYPES = [
+  "likert",
+  "semantic_differential",
+  "slider",
+  "multiple_choice",
+  "free_text"
+] as const;
+export type QuestionnaireItemType = (typeof QUESTIONNAIRE_ITEM_TYPES)[number];
+
+// Only these two are asked: condition questionnaires after every version, session ones after consent.
+export type QuestionnaireScope = "condition" | "session";
+
+export type ScaleAnchor = { value: number; label: string };
+export type ChoiceOption = { value: string; label: string };
+
+export type QuestionnaireItemInfo = {
+  id: string;
+  key: string;
+  text: string;
+  type: QuestionnaireItemType;
+  min: number | null;
+  max: number | null;
+  step: number | null;
+  anchors: ScaleAnchor[];
+  options: ChoiceOption[];
+  multiple: boolean;
+  required: boolean;
+  reverseScored: boolean;
+};
+
+export type QuestionnaireInfo = {
+  id: string;
+  key: string;
+  version: number;
+  title: string;
+  instructions: string | null;
+  scope: QuestionnaireScope;
+  active: boolean;
+  items: QuestionnaireItemInfo[];
+};
+
+// An answer as sent by the client: scale value, chosen option(s) or free text.
+export type ItemValue = number | string | string[];
+
+// Versioned consent text accepted before a session starts (see /api/consent).
+export type ConsentFormInfo = {
+  id: string;
+  version: number;
+  title: string;
+  body: string;
+  active: boolean;
+};
+
+// Outcome of a study session (StudySession.status).
+export const SESSION_STATUSES = ["in_progress", "completed", "screened_out", "timed_out"] as const;
+export type SessionStatus = (typeof SESSION_STATUSES)[number];
+
+// A study run from this deployment (see /api/studies). Sessions, and everything recorded in them, belong to one.
+export const STUDY_STATUSES = ["draft", "active", "closed"] as const;
+export type StudyStatus = (typeof STUDY_STATUSES)[number];
+
+// How condition orders are assigned: a balanced Williams design, a plain Latin square (position balance only),
+// a fresh random order per stimulus, or the study's condition list as given.
+export const ORDERING_SCHEMES = ["williams", "latin_square", "random", "fixed"] as const;
+export type OrderingScheme = (typeof ORDERING_SCHEMES)[number];
+
+export type StudyInfo = {
+  id: string;
+  slug: string;
+  name: string;
+  status: StudyStatus;
+  conditions: AudioMode[];
+  // Empty: every active stimulus with an approved pack / every active questionnaire.
+  stimulusIds: string[];
+  questionnaireKeys: string[];
+  stimuliPerParticipant: number | null;
+  ordering: OrderingScheme;
+  // Vision model for descriptions generated in the study's sessions; null = the DESCRIBE_MODEL default.
+  describeModel: string | null;
+  createdAt: string;
+};
+
+// What participant pages are told about a study (see /api/study): no condition names, so it stays blinded.
+export type StudySummary = Pick<StudyInfo, "id" | "slug" | "name" | "status"> & { conditionCount: number };
+
+// Researcher account (see /api/researchers); the password hash never leaves the server.
+export type ResearcherInfo = {
+  id: string;
+  email: string;
+  name: string | null;
+  active: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
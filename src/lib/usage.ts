@@ -0,0 +1,171 @@
+import type { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { DescribeOutputError, type DescribeOutput, type DescribeUsage } from "@/lib/describe";
+import { prisma } from "@/lib/prisma";
+import { reserveCall } from "@/lib/rateLimit";
+import type { TtsProvider, TtsRequest } from "@/lib/tts";
+
+// Usage ledger: one UsageEntry per provider call with what was sent and an estimated cost. Audio cache
+// hits are not provider calls and are not recorded. The rate limits (src/lib/rateLimit.ts) count these rows.
+
+// limited: checked against the rate limits before the call (the routes participants and researchers call; not
+// freezing packs).
+export type UsageContext = { route: string; sessionId?: string | null; limited?: boolean };
+
+// List prices in USD, used for estimates only. USAGE_TTS_PRICES / USAGE_DESCRIBE_PRICES (JSON objects) are merged
+// over these, e.g. USAGE_TTS_PRICES='{"azure":30}' for Azure HD voices.
+const TTS_PRICES_PER_M_CHARS: Record<string, number> = { openai: 15, azure: 16, local: 0 };
+const DESCRIBE_PRICES_PER_M_TOKENS: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  fixture: { input: 0, output: 0 }
+};
+
+function prices<T>(envVar: string, defaults: Record<string, T>): Record<string, T> {
+  const raw = process.env[envVar];
+  if (!raw) return defaults;
+  try {
+    return { ...defaults, ...JSON.parse(raw) };
+  } catch {
+    console.warn(`Ignoring ${envVar}: not a JSON object`);
+    return defaults;
+  }
+}
+
+export function ttsCostUsd(provider: string, characters: number) {
+  const perMillion = prices("USAGE_TTS_PRICES", TTS_PRICES_PER_M_CHARS)[provider] ?? 0;
+  return (characters * perMillion) / 1e6;
+}
+
+export function describeCostUsd(model: string, usage: DescribeUsage | null) {
+  const perMillion = prices("USAGE_DESCRIBE_PRICES", DESCRIBE_PRICES_PER_M_TOKENS)[model];
+  if (!perMillion || !usage) return 0;
+  return (usage.inputTokens * perMillion.input + usage.outputTokens * perMillion.output) / 1e6;
+}
+
+type UsageFigures = Pick<
+  Prisma.UsageEntryUncheckedUpdateInput,
+  "characters" | "imageInputs" | "inputTokens" | "outputTokens" | "estimatedCostUsd"
+>;
+
+// Runs a provider call with its ledger entry written first; a limited call is reserved against the rate limits in
+// that step (see reserveCall). Afterwards the entry gets the call's figures, `used(result)`. A failed call keeps its
+// entry only when `billedOnError(e)` says it was still paid for.
+async function metered<T>(
+  { limited, ...ctx }: UsageContext,
+  call: { kind: "tts" | "describe"; provider: string; model: string | null },
+  run: () => Promise<T>,
+  used: (result: T) => UsageFigures,
+  billedOnError: (e: unknown) => UsageFigures | null = () => null
+) {
+  const session = ctx.sessionId
+    ? await prisma.studySession.findUnique({ where: { id: ctx.sessionId }, select: { studyId: true } })
+    : null;
+  const data = { id: uuidv4(), ...ctx, ...call, studyId: session?.studyId ?? null, estimatedCostUsd: 0 };
+  const entry = limited ? await reserveCall(data) : await prisma.usageEntry.create({ data });
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (e) {
+    const billed = billedOnError(e);
+    if (billed) await prisma.usageEntry.update({ where: { id: entry.id }, data: billed });
+    else await prisma.usageEntry.delete({ where: { id: entry.id } });
+    throw e;
+  }
+  await prisma.usageEntry.update({ where: { id: entry.id }, data: used(result) });
+  return result;
+}
+
+// Calls the provider and records the call. Characters are those sent: the text, or the whole SSML document.
+export function synthesizeMetered(provider: TtsProvider, req: TtsRequest, ctx: UsageContext) {
+  const characters = req.input.kind === "text" ? req.input.text.length : req.input.ssml.length;
+  return metered(
+    ctx,
+    { kind: "tts", provider: provider.id, model: provider.model },
+    () => provider.synthesize(req),
+    () => ({ characters, estimatedCostUsd: ttsCostUsd(provider.id, characters) })
+  );
+}
+
+function describeFigures(model: string, usage: DescribeUsage | null): UsageFigures {
+  return {
+    imageInputs: 1,
+    inputTokens: usage?.inputTokens,
+    outputTokens: usage?.outputTokens,
+    estimatedCostUsd: describeCostUsd(model, usage)
+  };
+}
+
+// Calls the description provider and records the call. Unusable output was still a paid call, so it stays in the
+// ledger and counts toward the limits.
+export function describeMetered(
+  ctx: UsageContext,
+  call: { provider: string; model: string },
+  run: () => Promise<DescribeOutput>
+) {
+  return metered(
+    ctx,
+    { kind: "describe", ...call },
+    run,
+    (output) => describeFigures(call.model, output.usage),
+    (e) => (e instanceof DescribeOutputError ? describeFigures(call.model, e.usage) : null)
+  );
+}
+
+export type UsageFilters = { sessionId?: string; studyId?: string; from?: Date; to?: Date };
+
+const RECENT_ENTRIES = 200;
+
+function totalsOf(group: {
+  _count: { _all: number };
+  _sum: {
+    characters: number | null;
+    imageInputs: number | null;
+    inputTokens: number | null;
+    outputTokens: number | null;
+    estimatedCostUsd: number | null;
+  };
+}) {
+  return {
+    calls: group._count._all,
+    characters: group._sum.characters ?? 0,
+    imageInputs: group._sum.imageInputs ?? 0,
+    inputTokens: group._sum.inputTokens ?? 0,
+    outputTokens: group._sum.outputTokens ?? 0,
+    estimatedCostUsd: group._sum.estimatedCostUsd ?? 0
+  };
+}
+
+// Totals, per provider and per session, plus the most recent entries (GET /api/researcher/usage).
+export async function getUsageReport(filters: UsageFilters = {}) {
+  const where: Prisma.UsageEntryWhereInput = {
+    ...(filters.sessionId ? { sessionId: filters.sessionId } : {}),
+    ...(filters.studyId ? { studyId: filters.studyId } : {}),
+    ...(filters.from || filters.to ? { createdAt: { gte: filters.from, lt: filters.to } } : {})
+  };
+  const sums = {
+    _count: { _all: true },
+    _sum: { characters: true, imageInputs: true, inputTokens: true, outputTokens: true, estimatedCostUsd: true }
+  } as const;
+
+  const [total, byProvider, bySession, entries] = await Promise.all([
+    prisma.usageEntry.aggregate({ where, ...sums }),
+    prisma.usageEntry.groupBy({ by: ["kind", "provider", "model"], where, ...sums }),
+    prisma.usageEntry.groupBy({ by: ["sessionId"], where, ...sums }),
+    prisma.usageEntry.findMany({ where, orderBy: { createdAt: "desc" }, take: RECENT_ENTRIES })
+  ]);
+
+  return {
+    totals: totalsOf(total),
+    byProvider: byProvider
+      .map((g) => ({ kind: g.kind, provider: g.provider, model: g.model, ...totalsOf(g) }))
+      .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd),
+    bySession: bySession
+      .map((g) => ({ sessionId: g.sessionId, ...totalsOf(g) }))
+      .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd),
+    entries: entries.map((e) => ({ ...e, createdAt: e.createdAt.toISOString() }))
+  };
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { hasResearcherToken, PARTICIPANT_COOKIE, RESEARCHER_COOKIE, verifyToken } from "@/lib/authTokens";
+
+// Who may call what. Researcher pages and every API route not listed here need a researcher session (or the
+// shared token). Route handlers check the finer points: requireResearcher for deactivated accounts,
+// requireSessionAccess for a participant's own session.
+
+type Access = "public" | "participant";
+
+const API_ACCESS: { method: string; path: RegExp; access: Access; query?: (p: URLSearchParams) => boolean }[] = [
+  // Opening the study: which study, consent text, questionnaires, stimuli and their approved packs.
+  { method: "GET", path: /^\/api\/study$/, access: "public" },
+  { method: "POST", path: /^\/api\/study\/start$/, access: "public" },
+  { method: "GET", path: /^\/api\/consent$/, access: "public" },
+  { method: "GET", path: /^\/api\/questionnaires(\/[^/]+)?$/, access: "public" },
+  { method: "GET", path: /^\/api\/stimuli$/, access: "public" },
+  { method: "GET", path: /^\/api\/packs$/, access: "public", query: (p) => p.get("status") === "approved" },
+  { method: "POST", path: /^\/api\/auth\/(login|logout)$/, access: "public" },
+  { method: "GET", path: /^\/api\/auth\/me$/, access: "public" },
+  // A participant's own session.
+  { method: "POST", path: /^\/api\/study\/(submit|questionnaire|finish|events)$/, access: "participant" },
+  { method: "GET", path: /^\/api\/packs\/[^/]+\/audio\/[^/]+$/, access: "participant" }
+];
+
+function accessFor(req: NextRequest): Access | "researcher" {
+  const { pathname, searchParams } = req.nextUrl;
+  if (!pathname.startsWith("/api/")) return "researcher"; // the researcher pages in config.matcher
+  const rule = API_ACCESS.find(
+    (r) => r.method === req.method && r.path.test(pathname) && (!r.query || r.query(searchParams))
+  );
+  return rule?.access ?? "researcher";
+}
+
+async function isResearcher(req: NextRequest) {
+  if (hasResearcherToken(req)) return true;
+  const claims = await verifyToken(req.cookies.get(RESEARCHER_COOKIE)?.value);
+  return claims?.kind === "researcher";
+}
+
+export async function middleware(req: NextRequest) {
+  const access = accessFor(req);
+  if (access === "public" || (await isResearcher(req))) return NextResponse.next();
+
+  if (access === "participant") {
+    const claims = await verifyToken(req.cookies.get(PARTICIPANT_COOKIE)?.value);
+    if (claims?.kind === "participant") return NextResponse.next();
+  }
+
+  if (!req.nextUrl.pathname.startsWith("/api/")) {
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", req.nextUrl.pathname + req.nextUrl.search);
+    return NextResponse.redirect(login);
+  }
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+export const config = {
+  matcher: ["/api/:path*", "/workbench/:path*", "/researcher/:path*"]
+};